@@ -24,6 +24,107 @@ const HTTP_PORT = 3001;
 // Store active pages keyed by sessionId
 const activeSessions = new Map();
 
+/**
+ * Why a request should be blocked under a resource blocking policy, or null.
+ * Mirrors blockReason() in src/resource-blocking.ts.
+ */
+function blockReason(policy, resourceType, url) {
+  let hostname;
+  try {
+    hostname = new URL(url).hostname;
+  } catch (_) {
+    return null;
+  }
+  if (policy.hosts.some((h) => hostname === h || hostname.endsWith(`.${h}`))) {
+    return "tracker";
+  }
+  return policy.resourceTypes.includes(resourceType) ? resourceType : null;
+}
+
+/**
+ * Get past Google's consent page, or report a captcha or block page.
+ * Mirrors resolveInterstitial() in src/interstitials.ts. Returns the kind
+ * of interstitial that stopped the page ("consent", "captcha" or
+ * "blocked"), or null once the real page is loaded.
+ */
+async function passInterstitial(page, url, gotoOptions) {
+  const detect = () =>
+    page.evaluate(() => {
+      const { hostname, pathname } = window.location;
+      const text = document.body?.innerText ?? "";
+      if (
+        hostname.startsWith("consent.") ||
+        document.querySelector('form[action*="consent.google"]')
+      ) {
+        return "consent";
+      }
+      if (
+        pathname.startsWith("/sorry/") ||
+        document.querySelector("#captcha-form, iframe[src*='recaptcha']") ||
+        /unusual traffic from your computer network/i.test(text)
+      ) {
+        return "captcha";
+      }
+      if (/may be sending automated queries/i.test(text)) {
+        return "blocked";
+      }
+      return null;
+    });
+
+  const kind = await detect();
+  if (kind !== "consent") {
+    return kind;
+  }
+
+  console.log(`[HTTP API] Accepting consent page for ${url}`);
+  try {
+    await page
+      .locator(
+        'form[action*="consent.google"]:has(input[name="set_eom"][value="false"]) button',
+      )
+      .or(page.getByRole("button", { name: /accept all/i }))
+      .first()
+      .click({ timeout: 5000 });
+    await page.waitForURL((u) => !u.hostname.startsWith("consent."), {
+      timeout: 10000,
+    });
+    await page.goto(url, gotoOptions);
+    return await detect();
+  } catch (_) {
+    return "consent";
+  }
+}
+
+/**
+ * Intercept a session page's requests with the Worker's blocking policy and
+ * count what was blocked. The route is installed once. Each call (one per
+ * goto) swaps the policy and resets the counts, so a reused session doesn't
+ * report the requests that used it before, matching Cloudflare.
+ */
+async function applyResourceBlocking(session, policy) {
+  session.blocking = policy;
+  const routed = session.blockingCounts !== undefined;
+  session.blockingCounts = { allowed: 0, blocked: {} };
+  if (routed) {
+    return;
+  }
+  await session.page.route("**/*", (route) => {
+    const request = route.request();
+    const reason = blockReason(
+      session.blocking,
+      request.resourceType(),
+      request.url(),
+    );
+    const counts = session.blockingCounts;
+    if (reason) {
+      counts.blocked[reason] = (counts.blocked[reason] || 0) + 1;
+      return route.abort("blockedbyclient");
+    }
+    counts.allowed++;
+    return route.continue();
+  });
+}
+
 async function startServer() {
   console.log("🎭 Starting Playwright server...");
 
@@ -118,7 +219,14 @@ function startHttpApiServer(playwrightServer) {
             });
           }
 
-          const { page } = activeSessions.get(sessionId);
+          const session = activeSessions.get(sessionId);
+          const { page } = session;
+          if (data.headers) {
+            await page.setExtraHTTPHeaders(data.headers);
+          }
+          if (data.blocking) {
+            await applyResourceBlocking(session, data.blocking);
+          }
           console.log(`[HTTP API] goto: ${data.url}`);
           // Add default 30 second timeout if not specified
           const gotoOptions = {
@@ -130,6 +238,14 @@ function startHttpApiServer(playwrightServer) {
 
           res.writeHead(200, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ success: true, sessionId }));
+        } else if (pathname === "/api/page/blocking-counts") {
+          const session = activeSessions.get(data.sessionId);
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify(
+              session?.blockingCounts || { allowed: 0, blocked: {} },
+            ),
+          );
         } else if (pathname === "/api/page/evaluate") {
           const sessionId = data.sessionId;
 
@@ -143,12 +259,13 @@ function startHttpApiServer(playwrightServer) {
 
           try {
             // The script is a function as a string (from fn.toString())
-            // Convert it to an actual function and execute it
+            // Convert it to an actual function and execute it, passing the
+            // Worker's JSON argument (e.g. the selector registry) through.
             // eslint-disable-next-line no-eval
             const fn = eval(`(${data.script})`);
             // Add 10 second timeout to prevent hanging requests
             const result = await Promise.race([
-              page.evaluate(fn),
+              page.evaluate(fn, data.arg),
               new Promise((_, reject) =>
                 setTimeout(() => reject(new Error("Evaluation timeout: exceeded 10 seconds")), 10000)
               )
@@ -202,24 +319,57 @@ function startHttpApiServer(playwrightServer) {
             autoCreated = true;
           }
 
-          const { page } = activeSessions.get(sessionId);
+          const session = activeSessions.get(sessionId);
+          const { page } = session;
 
           try {
+            if (data.blocking) {
+              await applyResourceBlocking(session, data.blocking);
+            }
+
             // Strip @lat,lng,zoom/ from the URL to avoid inheriting stale viewport
             // coordinates from the collection page. This forces Google Maps to
             // recentre on the actual place location.
-            const cleanUrl = placeUrl.replace(
-              /\/@-?\d+\.?\d*,-?\d+\.?\d*,\d+\.?\d*z\//,
-              "/",
+            const cleanUrl = new URL(
+              placeUrl.replace(
+                /\/@-?\d+\.?\d*,-?\d+\.?\d*,\d+\.?\d*z\//,
+                "/",
+              ),
             );
+
+            // Render in the requested language; the Worker parses the
+            // localised rating, review and status labels.
+            if (data.locale) {
+              cleanUrl.searchParams.set("hl", data.locale);
+              const language = data.locale.split("-")[0];
+              await page.setExtraHTTPHeaders({
+                "Accept-Language": `${data.locale},${language};q=0.9,en;q=0.5`,
+              });
+            }
             console.log(`[HTTP API] place-details: ${cleanUrl}`);
-            await page.goto(cleanUrl, {
+            const gotoOptions = {
               waitUntil: "domcontentloaded",
               timeout: 20000,
-            });
+            };
+            await page.goto(cleanUrl.toString(), gotoOptions);
+
+            const interstitial = await passInterstitial(
+              page,
+              cleanUrl.toString(),
+              gotoOptions,
+            );
+            if (interstitial) {
+              const error = new Error(
+                `Google served a ${interstitial} page instead of the place`,
+              );
+              error.interstitial = interstitial;
+              throw error;
+            }
 
             // Wait for place panel to load.
-            await page.waitForSelector("h1", { timeout: 10000 });
+            await page.waitForSelector(data.selectors.placeName.join(", "), {
+              timeout: 10000,
+            });
 
             // Wait for the URL to update with coordinates.
             // Google Maps rewrites the URL after the map centres on the place,
@@ -238,8 +388,28 @@ function startHttpApiServer(playwrightServer) {
             // review counts) have rendered after the main content loads.
             await page.waitForTimeout(500);
 
-            const details = await page.evaluate(() => {
+            // The Worker sends its active selector registry (see
+            // src/selectors.ts); each field's chain is tried in order.
+            const details = await page.evaluate((chains) => {
               const url = window.location.href;
+              const matched = {};
+              // Selectors the browser rejects are skipped.
+              const queryAll = (field) => {
+                for (const [i, selector] of chains[field].entries()) {
+                  let found = [];
+                  try {
+                    found = document.querySelectorAll(selector);
+                  } catch (_) {
+                    continue;
+                  }
+                  if (found.length > 0) {
+                    matched[field] = i;
+                    return Array.from(found);
+                  }
+                }
+                matched[field] = null;
+                return [];
+              };
 
               // Extract coordinates from URL pattern @lat,lng,zoom.
               const coordMatch = url.match(
@@ -281,12 +451,10 @@ function startHttpApiServer(playwrightServer) {
               }
 
               // Name
-              const name = document.querySelector("h1")?.textContent;
+              const name = queryAll("placeName")[0]?.textContent;
 
               // Type (category)
-              const typeButton = document.querySelector(
-                'button[jsaction*="category"]',
-              );
+              const typeButton = queryAll("placeType")[0];
               let type = typeButton?.textContent;
 
               // Fallback: try to find type near the rating
@@ -314,15 +482,13 @@ function startHttpApiServer(playwrightServer) {
                 }
               }
 
-              // Address
+              // Address. The aria-label is "<localised 'Address'>: <address>".
               let address = null;
-              const addressButtons = document.querySelectorAll(
-                'button[aria-label*="Address"], button[data-item-id="address"]',
-              );
+              const addressButtons = queryAll("placeAddress");
               for (const btn of addressButtons) {
                 const label = btn.getAttribute("aria-label");
-                if (label && label.includes("Address:")) {
-                  address = label.replace("Address:", "").trim();
+                if (label && label.includes(":")) {
+                  address = label.replace(/^[^:]+:/, "").trim();
                   break;
                 }
                 const text = btn.textContent;
@@ -334,9 +500,7 @@ function startHttpApiServer(playwrightServer) {
 
               // Website
               let website = null;
-              const websiteLinks = document.querySelectorAll(
-                'a[data-item-id="authority"], a[aria-label*="Website"]',
-              );
+              const websiteLinks = queryAll("placeWebsite");
               for (const link of websiteLinks) {
                 if (link.href && !link.href.includes("google.com")) {
                   website = link.href;
@@ -344,39 +508,20 @@ function startHttpApiServer(playwrightServer) {
                 }
               }
 
-              // Rating
-              const ratingImg = document.querySelector(
-                '[role="img"][aria-label*="stars"]',
-              );
-              const ratingLabel = ratingImg?.getAttribute("aria-label");
-              const ratingMatch = ratingLabel?.match(/(\d+\.?\d*)\s*stars?/i);
-              const rating = ratingMatch ? parseFloat(ratingMatch[1]) : null;
+              // Rating, review count and business status are localised, so
+              // return the raw labels for the Worker to parse.
+              const ratingLabels = queryAll("placeRating")
+                .map((el) => el.getAttribute("aria-label") || "")
+                .filter((label) => /\d[.,]\d/.test(label))
+                .slice(0, 10);
 
-              // Review count
-              const reviewButtons = document.querySelectorAll(
-                'button[aria-label*="reviews"], [aria-label*="Reviews"]',
-              );
-              let reviewCount = null;
-              for (const btn of reviewButtons) {
-                const label = btn.getAttribute("aria-label") || btn.textContent;
-                const countMatch = label?.match(/(\d+)\s*reviews?/i);
-                if (countMatch) {
-                  reviewCount = parseInt(countMatch[1]);
-                  break;
-                }
-              }
+              const reviewLabels = queryAll("placeReviews")
+                .map((el) => el.getAttribute("aria-label") || el.textContent || "")
+                .filter((label) => /\d/.test(label))
+                .slice(0, 50);
 
-              // Business status (e.g. "Permanently closed", "Temporarily closed").
-              let status = "operational";
-              const statusEl = document.querySelector("span.fCEvvc");
-              if (statusEl) {
-                const statusText = statusEl.textContent?.trim().toLowerCase() || "";
-                if (statusText.includes("permanently closed")) {
-                  status = "permanently_closed";
-                } else if (statusText.includes("temporarily closed")) {
-                  status = "temporarily_closed";
-                }
-              }
+              const statusText =
+                queryAll("placeStatus")[0]?.textContent || null;
 
               return {
                 name,
@@ -385,12 +530,13 @@ function startHttpApiServer(playwrightServer) {
                 lat,
                 lng,
                 website,
-                rating,
-                review_count: reviewCount,
-                status,
+                ratingLabels,
+                reviewLabels,
+                statusText,
                 google_maps_url: url.split("?")[0],
+                selectorMatches: matched,
               };
-            });
+            }, data.selectors);
 
             // Clean up auto-created sessions after use.
             if (autoCreated) {
@@ -404,7 +550,15 @@ function startHttpApiServer(playwrightServer) {
             }
 
             res.writeHead(200, { "Content-Type": "application/json" });
-            res.end(JSON.stringify({ result: details, sessionId }));
+            res.end(
+              JSON.stringify({
+                result: details,
+                sessionId,
+                ...(session.blockingCounts && {
+                  blocking: session.blockingCounts,
+                }),
+              }),
+            );
           } catch (detailsError) {
             console.error(
               `[HTTP API] place-details error:`,
@@ -424,8 +578,36 @@ function startHttpApiServer(playwrightServer) {
               }
             }
 
+            // Errors use the Worker's envelope and codes (see
+            // src/errors.ts), as the Worker passes them straight through.
+            const interstitial = detailsError.interstitial;
+            if (interstitial) {
+              const consent = interstitial === "consent";
+              res.writeHead(consent ? 502 : 503, {
+                "Content-Type": "application/json",
+              });
+              res.end(
+                JSON.stringify({
+                  success: false,
+                  error: detailsError.message,
+                  code: consent ? "CONSENT_REQUIRED" : "BLOCKED_BY_GOOGLE",
+                  retryable: true,
+                  retryAfterSeconds: consent ? 30 : 300,
+                  interstitial,
+                }),
+              );
+              return;
+            }
+
             res.writeHead(500, { "Content-Type": "application/json" });
-            res.end(JSON.stringify({ error: detailsError.message }));
+            res.end(
+              JSON.stringify({
+                success: false,
+                error: detailsError.message,
+                code: "INTERNAL_ERROR",
+                retryable: false,
+              }),
+            );
           }
         } else if (pathname === "/api/page/close") {
           const sessionId = data.sessionId;
@@ -0,0 +1,469 @@
+/**
+ * Scoped API Keys
+ *
+ * API keys are stored in KV as records with a name, the route scopes they
+ * may call, optional daily/monthly quotas, an expiry date and a disabled
+ * flag. Only the SHA-256 hash of each key is stored; the plaintext is shown
+ * once, when the key is created.
+ *
+ * KV data model (shares the BROWSER_SESSIONS namespace):
+ * - Key: "apikey:<sha256 hex of the key>"
+ * - Value: JSON string of ApiKeyRecord
+ * - No TTL; expiry is enforced on lookup via expiresAt
+ *
+ * Usage counters for quotas:
+ * - Key: "usage:<keyId>:day:<YYYY-MM-DD>" / "usage:<keyId>:month:<YYYY-MM>"
+ * - Value: request count as a string
+ * - TTL: a little over the period, so old counters clean themselves up
+ *
+ * KV has no atomic increment, so concurrent requests can under-count by a
+ * few. Quotas are a budget guard, not a billing meter.
+ *
+ * The keyId is the first 16 hex characters of the hash. It identifies a key
+ * in logs, responses and the /admin/keys endpoints without revealing it.
+ *
+ * Keys in the legacy comma-separated API_KEYS secret are still accepted with
+ * every scope and no quotas, so existing clients keep working while they are
+ * migrated to KV keys.
+ */
+
+import { createLogger } from "./logger";
+
+const log = createLogger("ApiKeys");
+
+/** KV key prefix for API key records. */
+const KEY_PREFIX = "apikey:";
+
+/** KV key prefix for quota usage counters. */
+const USAGE_PREFIX = "usage:";
+
+/** Length of the public key identifier (hex chars of the hash). */
+const KEY_ID_LENGTH = 16;
+
+/** Prefix for generated keys, so they are recognisable in config files. */
+const GENERATED_KEY_PREFIX = "brk_";
+
+/** Counter TTLs: one period plus a day of slack. */
+const DAY_USAGE_TTL_SECONDS = 2 * 24 * 60 * 60;
+const MONTH_USAGE_TTL_SECONDS = 32 * 24 * 60 * 60;
+
+export type ApiKeyScope = "data-import" | "place-details" | "admin";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  "data-import",
+  "place-details",
+  "admin",
+];
+
+export interface ApiKeyQuotas {
+  daily?: number;
+  monthly?: number;
+}
+
+export interface ApiKeyRecord {
+  keyId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  quotas: ApiKeyQuotas;
+  expiresAt?: string; // ISO 8601; the key stops working after this time.
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The authenticated caller, as passed to handlers and logs. */
+export interface ApiKeyIdentity {
+  keyId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  quotas: ApiKeyQuotas;
+  legacy: boolean;
+}
+
+export type ApiKeyAuthResult =
+  | { ok: true; key: ApiKeyIdentity }
+  | { ok: false; reason: "missing" | "unknown" | "disabled" | "expired" };
+
+export type QuotaCheckResult =
+  | { ok: true }
+  | { ok: false; period: "daily" | "monthly"; limit: number; resetAt: string };
+
+/**
+ * Hex SHA-256 of a key. This is what gets stored and looked up.
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(key),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Constant-time string comparison to prevent timing attacks.
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Read the bearer token from the Authorization header.
+ */
+export function bearerToken(request: Request): string | null {
+  const authHeader = request.headers.get("Authorization");
+  if (!authHeader) {
+    return null;
+  }
+
+  const [scheme, token] = authHeader.split(" ");
+  if (scheme !== "Bearer" || !token) {
+    return null;
+  }
+  return token;
+}
+
+/**
+ * Authenticate a bearer token against KV key records, falling back to the
+ * legacy API_KEYS secret.
+ */
+export async function authenticateApiKey(
+  kv: KVNamespace,
+  token: string | null,
+  legacyKeys?: string,
+): Promise<ApiKeyAuthResult> {
+  if (!token) {
+    return { ok: false, reason: "missing" };
+  }
+
+  const hash = await hashApiKey(token);
+  const value = await kv.get(`${KEY_PREFIX}${hash}`);
+
+  if (value) {
+    const record = JSON.parse(value) as ApiKeyRecord;
+    if (record.disabled) {
+      return { ok: false, reason: "disabled" };
+    }
+    if (record.expiresAt && Date.parse(record.expiresAt) <= Date.now()) {
+      return { ok: false, reason: "expired" };
+    }
+    return {
+      ok: true,
+      key: {
+        keyId: record.keyId,
+        name: record.name,
+        scopes: record.scopes,
+        quotas: record.quotas,
+        legacy: false,
+      },
+    };
+  }
+
+  // Use constant-time comparison to prevent timing attacks
+  const allowedKeys = (legacyKeys || "")
+    .split(",")
+    .map((k) => k.trim())
+    .filter(Boolean);
+  for (const key of allowedKeys) {
+    if (timingSafeEqual(token, key)) {
+      return {
+        ok: true,
+        key: {
+          keyId: hash.slice(0, KEY_ID_LENGTH),
+          name: "legacy",
+          scopes: [...API_KEY_SCOPES],
+          quotas: {},
+          legacy: true,
+        },
+      };
+    }
+  }
+
+  return { ok: false, reason: "unknown" };
+}
+
+/**
+ * The scope a route requires, or null for paths that only need a valid key
+ * (unknown paths fall through to a 404).
+ */
+export function requiredScope(pathname: string): ApiKeyScope | null {
+  if (
+    pathname === "/data-import" ||
+    pathname === "/data-import/stream" ||
+    pathname.startsWith("/jobs/")
+  ) {
+    return "data-import";
+  }
+  if (pathname === "/api/place-details") {
+    return "place-details";
+  }
+  if (
+    pathname === "/sessions" ||
+    pathname.startsWith("/sessions/") ||
+    pathname === "/extraction-quality" ||
+    pathname.startsWith("/admin/")
+  ) {
+    return "admin";
+  }
+  return null;
+}
+
+function usageKeys(keyId: string, now: Date): { day: string; month: string } {
+  const iso = now.toISOString();
+  return {
+    day: `${USAGE_PREFIX}${keyId}:day:${iso.slice(0, 10)}`,
+    month: `${USAGE_PREFIX}${keyId}:month:${iso.slice(0, 7)}`,
+  };
+}
+
+/**
+ * Check a key's daily and monthly quotas and, if there is room, count this
+ * request against both. Keys without quotas are not counted.
+ */
+export async function consumeQuota(
+  kv: KVNamespace,
+  key: ApiKeyIdentity,
+): Promise<QuotaCheckResult> {
+  const { daily, monthly } = key.quotas;
+  if (daily == null && monthly == null) {
+    return { ok: true };
+  }
+
+  const now = new Date();
+  const keys = usageKeys(key.keyId, now);
+  const [dayValue, monthValue] = await Promise.all([
+    kv.get(keys.day),
+    kv.get(keys.month),
+  ]);
+  const dayCount = parseInt(dayValue || "0", 10);
+  const monthCount = parseInt(monthValue || "0", 10);
+
+  if (daily != null && dayCount >= daily) {
+    const resetAt = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+    );
+    return {
+      ok: false,
+      period: "daily",
+      limit: daily,
+      resetAt: resetAt.toISOString(),
+    };
+  }
+
+  if (monthly != null && monthCount >= monthly) {
+    const resetAt = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+    );
+    return {
+      ok: false,
+      period: "monthly",
+      limit: monthly,
+      resetAt: resetAt.toISOString(),
+    };
+  }
+
+  await Promise.all([
+    kv.put(keys.day, String(dayCount + 1), {
+      expirationTtl: DAY_USAGE_TTL_SECONDS,
+    }),
+    kv.put(keys.month, String(monthCount + 1), {
+      expirationTtl: MONTH_USAGE_TTL_SECONDS,
+    }),
+  ]);
+  return { ok: true };
+}
+
+/**
+ * Current usage counters for a key.
+ */
+export async function getKeyUsage(
+  kv: KVNamespace,
+  keyId: string,
+): Promise<{ daily: number; monthly: number }> {
+  const keys = usageKeys(keyId, new Date());
+  const [dayValue, monthValue] = await Promise.all([
+    kv.get(keys.day),
+    kv.get(keys.month),
+  ]);
+  return {
+    daily: parseInt(dayValue || "0", 10),
+    monthly: parseInt(monthValue || "0", 10),
+  };
+}
+
+/**
+ * Create a key record. Returns the plaintext key (only available now) and
+ * the stored record.
+ */
+export async function createApiKey(
+  kv: KVNamespace,
+  params: {
+    name: string;
+    scopes: ApiKeyScope[];
+    quotas?: ApiKeyQuotas;
+    expiresAt?: string;
+  },
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const key =
+    GENERATED_KEY_PREFIX +
+    Array.from(bytes)
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("");
+  const hash = await hashApiKey(key);
+
+  const now = new Date().toISOString();
+  const record: ApiKeyRecord = {
+    keyId: hash.slice(0, KEY_ID_LENGTH),
+    name: params.name,
+    scopes: params.scopes,
+    quotas: params.quotas || {},
+    ...(params.expiresAt && { expiresAt: params.expiresAt }),
+    disabled: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await kv.put(`${KEY_PREFIX}${hash}`, JSON.stringify(record));
+  log.info(`Created key ${record.keyId} (${record.name})`);
+  return { key, record };
+}
+
+/**
+ * Find a key record's full KV key from its public keyId.
+ */
+async function findKeyEntry(
+  kv: KVNamespace,
+  keyId: string,
+): Promise<string | null> {
+  if (!/^[0-9a-f]+$/.test(keyId) || keyId.length !== KEY_ID_LENGTH) {
+    return null;
+  }
+  const list = await kv.list({ prefix: `${KEY_PREFIX}${keyId}` });
+  return list.keys[0]?.name ?? null;
+}
+
+/**
+ * List all key records.
+ */
+export async function listApiKeys(kv: KVNamespace): Promise<ApiKeyRecord[]> {
+  const records: ApiKeyRecord[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const list = await kv.list({ prefix: KEY_PREFIX, cursor });
+    for (const entry of list.keys) {
+      const value = await kv.get(entry.name);
+      if (value) {
+        records.push(JSON.parse(value) as ApiKeyRecord);
+      }
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+
+  return records;
+}
+
+/**
+ * Apply changes to a key record. Returns the updated record, or null if the
+ * keyId is unknown.
+ */
+export async function updateApiKey(
+  kv: KVNamespace,
+  keyId: string,
+  changes: Partial<
+    Pick<ApiKeyRecord, "name" | "scopes" | "quotas" | "expiresAt" | "disabled">
+  >,
+): Promise<ApiKeyRecord | null> {
+  const entry = await findKeyEntry(kv, keyId);
+  if (!entry) return null;
+
+  const value = await kv.get(entry);
+  if (!value) return null;
+
+  const record = JSON.parse(value) as ApiKeyRecord;
+  Object.assign(record, changes, { updatedAt: new Date().toISOString() });
+  await kv.put(entry, JSON.stringify(record));
+  log.info(`Updated key ${record.keyId} (${record.name})`);
+  return record;
+}
+
+/**
+ * Delete a key record. Returns false if the keyId is unknown.
+ */
+export async function deleteApiKey(
+  kv: KVNamespace,
+  keyId: string,
+): Promise<boolean> {
+  const entry = await findKeyEntry(kv, keyId);
+  if (!entry) return false;
+
+  await kv.delete(entry);
+  log.info(`Deleted key ${keyId}`);
+  return true;
+}
+
+/**
+ * Validate the editable fields of an admin create/update request body.
+ * Returns an error message, or null if the fields are valid.
+ */
+export function validateApiKeyFields(
+  body: Record<string, unknown>,
+  requireAll: boolean,
+): string | null {
+  if (requireAll || body.name !== undefined) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return "name must be a non-empty string";
+    }
+  }
+
+  if (requireAll || body.scopes !== undefined) {
+    if (
+      !Array.isArray(body.scopes) ||
+      body.scopes.length === 0 ||
+      !body.scopes.every((s) => API_KEY_SCOPES.includes(s as ApiKeyScope))
+    ) {
+      return `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(", ")}`;
+    }
+  }
+
+  if (body.quotas !== undefined) {
+    const quotas = body.quotas as Record<string, unknown> | null;
+    if (typeof quotas !== "object" || quotas === null) {
+      return "quotas must be an object";
+    }
+    for (const period of ["daily", "monthly"]) {
+      const limit = quotas[period];
+      if (
+        limit !== undefined &&
+        (typeof limit !== "number" || !Number.isInteger(limit) || limit < 0)
+      ) {
+        return `quotas.${period} must be a non-negative integer`;
+      }
+    }
+  }
+
+  if (body.expiresAt !== undefined) {
+    if (
+      typeof body.expiresAt !== "string" ||
+      Number.isNaN(Date.parse(body.expiresAt))
+    ) {
+      return "expiresAt must be an ISO 8601 date";
+    }
+  }
+
+  if (body.disabled !== undefined && typeof body.disabled !== "boolean") {
+    return "disabled must be a boolean";
+  }
+
+  return null;
+}
@@ -0,0 +1,337 @@
+/**
+ * AF_initDataCallback Parser
+ *
+ * Google Maps pages embed their initial data in script tags like:
+ *
+ *   <script class="ds:0" nonce="...">
+ *     AF_initDataCallback({key: 'ds:0', hash: '1', data:[...], sideChannel: {}});
+ *   </script>
+ *
+ * This module pulls the `data` array out of that script text and JSON-decodes
+ * it without executing anything, so the same code works on HTML fetched
+ * directly by the Worker and on script text read out of a browser page.
+ *
+ * Field positions inside the decoded blob are described by versioned schemas
+ * (COLLECTION_BLOB_SCHEMAS) instead of inline magic indexes, and anything the
+ * schema expected but couldn't find is returned as a BlobWarning so a Google
+ * layout change is visible rather than silently producing undefined fields.
+ */
+
+/** A path into the decoded blob, e.g. [37, 5] for capturedData[37][5]. */
+export type BlobPath = readonly number[];
+
+/**
+ * Known array positions in a collection page's ds:0 blob.
+ *
+ * Google changes this layout without notice. When it does, add a new schema
+ * version rather than editing an existing one, so the previous mapping stays
+ * available for comparison and rollback.
+ */
+export interface CollectionBlobSchema {
+  version: number;
+  /** Path to the array of place entries. */
+  placeList: BlobPath;
+  /** Paths relative to each place entry. */
+  place: {
+    url: BlobPath;
+    kgId: BlobPath;
+    photoUrl: BlobPath;
+    savedAt: BlobPath;
+  };
+  /** Paths relative to the blob root. */
+  collection: {
+    collectionId: BlobPath;
+    collectionName: BlobPath;
+    totalCount: BlobPath;
+  };
+}
+
+export const COLLECTION_BLOB_SCHEMAS: Record<number, CollectionBlobSchema> = {
+  1: {
+    version: 1,
+    placeList: [1],
+    place: {
+      url: [5],
+      kgId: [37, 5],
+      photoUrl: [43, 0, 0],
+      savedAt: [45, 0],
+    },
+    collection: {
+      collectionId: [13, 0],
+      collectionName: [13, 2],
+      totalCount: [13, 3],
+    },
+  },
+};
+
+/** Schema version used when the caller doesn't ask for a specific one. */
+export const CURRENT_COLLECTION_BLOB_SCHEMA = 1;
+
+/**
+ * A field the schema expected but didn't find (or found with the wrong type).
+ *
+ * Place-level fields are only reported when they are missing from every
+ * entry — individual places legitimately lack photos or KG IDs, but a field
+ * that vanishes everywhere usually means Google moved it.
+ */
+export interface BlobWarning {
+  field: string;
+  /** Human-readable path, e.g. "[1][*][37][5]". */
+  path: string;
+  missing: number;
+  total: number;
+}
+
+export interface CollectionBlobEntry {
+  url: string;
+  savedAt?: number;
+  kgId?: string;
+  photoUrl?: string;
+}
+
+export interface ParsedCollectionBlob {
+  schemaVersion: number;
+  entries: CollectionBlobEntry[];
+  totalCount?: number;
+  collectionId?: string;
+  collectionName?: string;
+  warnings: BlobWarning[];
+}
+
+/**
+ * Find the text of the AF_initDataCallback script for the given key in an
+ * HTML document. Returns null if the page has no such block.
+ */
+export function findDataCallbackScript(
+  html: string,
+  key = "ds:0",
+): string | null {
+  const scriptPattern = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+  const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const keyPattern = new RegExp(`key:\\s*['"]${escapedKey}['"]`);
+
+  for (const match of html.matchAll(scriptPattern)) {
+    const [, attrs, body] = match;
+    const classMatch = attrs.match(/class\s*=\s*["']([^"']*)["']/i);
+    const hasClass = classMatch?.[1].split(/\s+/).includes(key);
+    const hasKey =
+      body.includes("AF_initDataCallback") && keyPattern.test(body);
+    if (hasClass || hasKey) {
+      return body;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Return the index just past the JSON array/object starting at `start`,
+ * honouring string literals and escapes. Returns -1 if it never closes.
+ */
+function findLiteralEnd(text: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quote) {
+      if (ch === "\\") {
+        i++;
+      } else if (ch === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "[" || ch === "{") {
+      depth++;
+    } else if (ch === "]" || ch === "}") {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Extract and JSON-decode the `data:` payload from AF_initDataCallback script
+ * text. Returns null if the script isn't in the expected shape.
+ */
+export function extractCallbackData(scriptText: string): unknown | null {
+  const callIndex = scriptText.indexOf("AF_initDataCallback");
+  if (callIndex === -1) return null;
+
+  const dataMatch = /\bdata\s*:\s*(?=[[{])/.exec(scriptText.slice(callIndex));
+  if (!dataMatch) return null;
+
+  const start = callIndex + dataMatch.index + dataMatch[0].length;
+  const end = findLiteralEnd(scriptText, start);
+  if (end === -1) return null;
+
+  try {
+    return JSON.parse(scriptText.slice(start, end));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format a path for warnings, e.g. [13, 3] → "[13][3]".
+ */
+function formatPath(path: BlobPath): string {
+  return path.map((p) => `[${p}]`).join("");
+}
+
+/**
+ * Walk a path into a nested array, returning undefined at the first gap.
+ */
+export function readPath(root: unknown, path: BlobPath): unknown {
+  let node: any = root;
+  for (const index of path) {
+    if (!Array.isArray(node)) return undefined;
+    node = node[index];
+  }
+  return node;
+}
+
+function readString(root: unknown, path: BlobPath): string | undefined {
+  const value = readPath(root, path);
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function readPositiveNumber(root: unknown, path: BlobPath): number | undefined {
+  const value = readPath(root, path);
+  return typeof value === "number" && value > 0 ? value : undefined;
+}
+
+/**
+ * Extract and decode the AF_initDataCallback payload for any ds:N key from an
+ * HTML document. Returns null if the block is missing or malformed.
+ */
+export function parseDataCallbackFromHtml(
+  html: string,
+  key = "ds:0",
+): unknown | null {
+  const scriptText = findDataCallbackScript(html, key);
+  return scriptText ? extractCallbackData(scriptText) : null;
+}
+
+/**
+ * Warning for a page where no collection blob could be read at all — either
+ * the ds:0 script is missing or its payload has no place list.
+ */
+export function blobUnavailableWarning(scriptFound: boolean): BlobWarning {
+  const schema = COLLECTION_BLOB_SCHEMAS[CURRENT_COLLECTION_BLOB_SCHEMA];
+  return scriptFound
+    ? {
+        field: "placeList",
+        path: formatPath(schema.placeList),
+        missing: 1,
+        total: 1,
+      }
+    : { field: "ds:0", path: "script.ds:0", missing: 1, total: 1 };
+}
+
+/**
+ * Map a decoded collection blob to typed per-place entries and collection
+ * metadata using the given schema version (see COLLECTION_BLOB_SCHEMAS).
+ *
+ * Returns null if the blob has no place list at all; otherwise returns what
+ * could be read plus a warning for every expected path that came back empty.
+ */
+export function parseCollectionBlob(
+  data: unknown,
+  version = CURRENT_COLLECTION_BLOB_SCHEMA,
+): ParsedCollectionBlob | null {
+  const schema = COLLECTION_BLOB_SCHEMAS[version];
+  if (!schema) {
+    throw new Error(`Unknown collection blob schema version: ${version}`);
+  }
+
+  const placeList = readPath(data, schema.placeList);
+  if (!Array.isArray(placeList)) {
+    return null;
+  }
+
+  const listPath = `${formatPath(schema.placeList)}[*]`;
+  const missing: Record<keyof CollectionBlobSchema["place"], number> = {
+    url: 0,
+    kgId: 0,
+    photoUrl: 0,
+    savedAt: 0,
+  };
+  const entries: CollectionBlobEntry[] = [];
+
+  for (const place of placeList) {
+    const url = readString(place, schema.place.url);
+    if (!url) {
+      missing.url++;
+      continue;
+    }
+
+    const entry: CollectionBlobEntry = {
+      url,
+      savedAt: readPositiveNumber(place, schema.place.savedAt),
+      kgId: readString(place, schema.place.kgId),
+      photoUrl: readString(place, schema.place.photoUrl),
+    };
+    if (entry.savedAt === undefined) missing.savedAt++;
+    if (entry.kgId === undefined) missing.kgId++;
+    if (entry.photoUrl === undefined) missing.photoUrl++;
+
+    entries.push(entry);
+  }
+
+  const warnings: BlobWarning[] = [];
+
+  for (const field of Object.keys(missing) as Array<keyof typeof missing>) {
+    // URL is the matching key, so any gap there is worth flagging. Other
+    // fields are counted over the entries that had a URL.
+    const total = field === "url" ? placeList.length : entries.length;
+    const flagged =
+      field === "url" ? missing.url > 0 : total > 0 && missing[field] === total;
+    if (flagged) {
+      warnings.push({
+        field,
+        path: `${listPath}${formatPath(schema.place[field])}`,
+        missing: missing[field],
+        total,
+      });
+    }
+  }
+
+  const collectionId = readString(data, schema.collection.collectionId);
+  const collectionName = readString(data, schema.collection.collectionName);
+  const totalCountRaw = readPath(data, schema.collection.totalCount);
+  const totalCount =
+    typeof totalCountRaw === "number" ? totalCountRaw : undefined;
+
+  const collectionFields = { collectionId, collectionName, totalCount };
+  for (const field of Object.keys(collectionFields) as Array<
+    keyof typeof collectionFields
+  >) {
+    if (collectionFields[field] === undefined) {
+      warnings.push({
+        field,
+        path: formatPath(schema.collection[field]),
+        missing: 1,
+        total: 1,
+      });
+    }
+  }
+
+  return {
+    schemaVersion: schema.version,
+    entries,
+    totalCount,
+    collectionId,
+    collectionName,
+    warnings,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Error Taxonomy
+ *
+ * Every error response uses one envelope:
+ *
+ *   {
+ *     "success": false,
+ *     "error": "All browser sessions are currently busy. ...",
+ *     "code": "POOL_FULL",
+ *     "retryable": true,
+ *     "retryAfterSeconds": 30,
+ *     ...endpoint-specific fields (sessionId, queue, attempts, ...)
+ *   }
+ *
+ * The code decides the HTTP status and whether (and how soon) the request
+ * is worth retrying, so clients can branch on `code` and `retryable` instead
+ * of parsing messages. When retryAfterSeconds is set it is also sent as the
+ * Retry-After header.
+ *
+ * Handlers return errorResponse() for errors they detect themselves, and
+ * pass anything thrown to classifyError(), which maps the typed errors the
+ * browser layers throw onto a code.
+ */
+
+import { GoogleInterstitialError } from "./interstitials";
+import { BrowserAcquireError } from "./session-pool";
+
+export type ErrorCode =
+  | "INVALID_REQUEST"
+  | "INVALID_URL"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "METHOD_NOT_ALLOWED"
+  | "RATE_LIMITED"
+  | "QUOTA_EXCEEDED"
+  | "POOL_FULL"
+  | "UPSTREAM_RATE_LIMITED"
+  | "NAVIGATION_TIMEOUT"
+  | "BLOCKED_BY_GOOGLE"
+  | "CONSENT_REQUIRED"
+  | "EXTRACTION_EMPTY"
+  | "SESSION_DEAD"
+  | "NOT_CONFIGURED"
+  | "CONFIG_INVALID"
+  | "INTERNAL_ERROR";
+
+interface ErrorDefinition {
+  status: number;
+  retryable: boolean;
+  /** Suggested delay before retrying; handlers may pass a better one. */
+  retryAfterSeconds?: number;
+}
+
+export const ERROR_DEFINITIONS: Record<ErrorCode, ErrorDefinition> = {
+  INVALID_REQUEST: { status: 400, retryable: false },
+  INVALID_URL: { status: 400, retryable: false },
+  UNAUTHORIZED: { status: 401, retryable: false },
+  FORBIDDEN: { status: 403, retryable: false },
+  NOT_FOUND: { status: 404, retryable: false },
+  METHOD_NOT_ALLOWED: { status: 405, retryable: false },
+  // Our own per-key limit and quotas; the handler knows when they reset.
+  RATE_LIMITED: { status: 429, retryable: true, retryAfterSeconds: 60 },
+  QUOTA_EXCEEDED: { status: 429, retryable: true },
+  POOL_FULL: { status: 503, retryable: true, retryAfterSeconds: 30 },
+  // Cloudflare refused to start a browser (acquire() 429).
+  UPSTREAM_RATE_LIMITED: {
+    status: 429,
+    retryable: true,
+    retryAfterSeconds: 60,
+  },
+  NAVIGATION_TIMEOUT: { status: 504, retryable: true, retryAfterSeconds: 10 },
+  // Retrying straight away from the same network rarely helps.
+  BLOCKED_BY_GOOGLE: { status: 503, retryable: true, retryAfterSeconds: 300 },
+  CONSENT_REQUIRED: { status: 502, retryable: true, retryAfterSeconds: 30 },
+  // The page loaded but yielded nothing where the collection has places.
+  EXTRACTION_EMPTY: { status: 502, retryable: true, retryAfterSeconds: 10 },
+  // The browser went away; a retry gets a fresh session.
+  SESSION_DEAD: { status: 503, retryable: true, retryAfterSeconds: 1 },
+  NOT_CONFIGURED: { status: 501, retryable: false },
+  CONFIG_INVALID: { status: 500, retryable: false },
+  INTERNAL_ERROR: { status: 500, retryable: false },
+};
+
+/** Playwright's message when the page or browser closed under a call. */
+const SESSION_DEAD_PATTERN =
+  /Target (page, context or browser|closed)|Browser (has been )?closed|browser has disconnected/i;
+
+/**
+ * An error with a taxonomy code, thrown where the cause is known and turned
+ * into the envelope by errorResponse.
+ */
+export class ApiError extends Error {
+  readonly code: ErrorCode;
+  readonly retryAfterSeconds?: number;
+  /** Extra envelope fields, e.g. the interstitial kind. */
+  readonly fields: Record<string, unknown>;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    options: {
+      retryAfterSeconds?: number;
+      fields?: Record<string, unknown>;
+    } = {},
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.retryAfterSeconds =
+      options.retryAfterSeconds ?? ERROR_DEFINITIONS[code].retryAfterSeconds;
+    this.fields = options.fields ?? {};
+  }
+
+  get status(): number {
+    return ERROR_DEFINITIONS[this.code].status;
+  }
+
+  get retryable(): boolean {
+    return ERROR_DEFINITIONS[this.code].retryable;
+  }
+}
+
+/**
+ * The error envelope for an ApiError, plus any endpoint-specific fields.
+ */
+export function errorBody(
+  error: ApiError,
+  fields: Record<string, unknown> = {},
+): Record<string, unknown> {
+  return {
+    success: false,
+    error: error.message,
+    code: error.code,
+    retryable: error.retryable,
+    ...(error.retryAfterSeconds !== undefined && {
+      retryAfterSeconds: error.retryAfterSeconds,
+    }),
+    ...error.fields,
+    ...fields,
+  };
+}
+
+/**
+ * Build an error response. Accepts an ApiError, or a code and message for
+ * errors the handler detected itself.
+ */
+export function errorResponse(
+  error: ApiError | ErrorCode,
+  message?: string,
+  options: {
+    retryAfterSeconds?: number;
+    fields?: Record<string, unknown>;
+    headers?: Record<string, string>;
+  } = {},
+): Response {
+  const apiError =
+    error instanceof ApiError
+      ? error
+      : new ApiError(error, message ?? error, options);
+  return new Response(JSON.stringify(errorBody(apiError, options.fields)), {
+    status: apiError.status,
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiError.retryAfterSeconds !== undefined && {
+        "Retry-After": String(apiError.retryAfterSeconds),
+      }),
+      ...options.headers,
+    },
+  });
+}
+
+/**
+ * Map anything thrown while serving a request onto the taxonomy. Unknown
+ * errors become INTERNAL_ERROR with a generic message, so internals don't
+ * leak to clients (the original is logged by the caller).
+ */
+export function classifyError(
+  error: unknown,
+  fallbackMessage = "Internal error",
+): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof BrowserAcquireError) {
+    return new ApiError(
+      "UPSTREAM_RATE_LIMITED",
+      `Cloudflare browser rendering is rate limited. Please retry after ${error.retryAfterSeconds} seconds.`,
+      {
+        retryAfterSeconds: error.retryAfterSeconds,
+        fields: { isRateLimit: true, attempts: error.attempts },
+      },
+    );
+  }
+  if (error instanceof GoogleInterstitialError) {
+    return new ApiError(
+      error.kind === "consent" ? "CONSENT_REQUIRED" : "BLOCKED_BY_GOOGLE",
+      error.message,
+      { fields: { interstitial: error.kind } },
+    );
+  }
+
+  const msg = error instanceof Error ? error.message : String(error);
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new ApiError("NAVIGATION_TIMEOUT", `Page load timed out: ${msg}`);
+  }
+  if (SESSION_DEAD_PATTERN.test(msg)) {
+    return new ApiError(
+      "SESSION_DEAD",
+      "The browser session closed during the request. Retry to get a fresh session.",
+    );
+  }
+  return new ApiError("INTERNAL_ERROR", fallbackMessage);
+}
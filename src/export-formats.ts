@@ -0,0 +1,309 @@
+/**
+ * Export Formats
+ *
+ * Renders a DataImportResponse as CSV, GeoJSON, KML or GPX so the extracted
+ * places can be loaded straight into spreadsheets and GIS tools.
+ *
+ * The format comes from the request body's `format` field, falling back to
+ * the Accept header. Coordinates are derived from each place URL where
+ * possible (see extractCoordinatesFromUrl); places without coordinates are
+ * kept in CSV and GeoJSON (null geometry) but skipped in KML and GPX, which
+ * require a location.
+ */
+
+import { DataImportResponse, ExportFormat, PlaceCard } from "./types";
+
+interface FormatSpec {
+  contentType: string;
+  extension: string;
+}
+
+const FORMAT_SPECS: Record<ExportFormat, FormatSpec> = {
+  json: { contentType: "application/json", extension: "json" },
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  geojson: { contentType: "application/geo+json", extension: "geojson" },
+  kml: {
+    contentType: "application/vnd.google-earth.kml+xml",
+    extension: "kml",
+  },
+  gpx: { contentType: "application/gpx+xml", extension: "gpx" },
+};
+
+/** Accept header media types mapped to export formats. */
+const ACCEPT_TYPES: Record<string, ExportFormat> = {
+  "application/json": "json",
+  "text/csv": "csv",
+  "application/geo+json": "geojson",
+  "application/vnd.geo+json": "geojson",
+  "application/vnd.google-earth.kml+xml": "kml",
+  "application/gpx+xml": "gpx",
+};
+
+/** Own-key lookup, so "toString" and friends aren't taken for entries. */
+function hasKey(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Check whether a value is a supported export format name.
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && hasKey(FORMAT_SPECS, value);
+}
+
+/**
+ * Pick the export format for a request.
+ *
+ * An explicit `format` field wins. Otherwise the first Accept media type we
+ * recognise is used, and anything else (including wildcards) means JSON.
+ */
+export function negotiateExportFormat(
+  format: unknown,
+  acceptHeader: string | null,
+): ExportFormat {
+  if (isExportFormat(format)) {
+    return format;
+  }
+
+  for (const part of (acceptHeader || "").split(",")) {
+    const mediaType = part.split(";")[0].trim().toLowerCase();
+    if (hasKey(ACCEPT_TYPES, mediaType)) {
+      return ACCEPT_TYPES[mediaType];
+    }
+  }
+
+  return "json";
+}
+
+/**
+ * Derive coordinates from a Google Maps place URL.
+ *
+ * Prefers the !3d<lat>!4d<lng> data parameters (the place's own location)
+ * over the @lat,lng viewport, which can be stale when the link was copied
+ * from a collection page.
+ */
+export function extractCoordinatesFromUrl(url: string): Coordinates | null {
+  const dataMatch = url.match(/!3d(-?\d+\.\d+)!4d(-?\d+\.\d+)/);
+  const viewportMatch = url.match(/@(-?\d+\.\d+),(-?\d+\.\d+)/);
+  const match = dataMatch || viewportMatch;
+  if (!match) {
+    return null;
+  }
+
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+  return { lat, lng };
+}
+
+/**
+ * Flatten a place into the property bag shared by every format.
+ */
+function placeProperties(place: PlaceCard): Record<string, string | number> {
+  const props: Record<string, string | number> = {
+    name: place.name,
+    url: place.url,
+  };
+  if (place.rating != null) props.rating = place.rating;
+  if (place.reviewCount != null) props.reviewCount = place.reviewCount;
+  if (place.note) props.note = place.note;
+  if (place.savedAt) {
+    props.savedAt = new Date(place.savedAt * 1000).toISOString();
+  }
+  if (place.kgId) props.kgId = place.kgId;
+  if (place.photoUrl) props.photoUrl = place.photoUrl;
+  return props;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function escapeCsv(value: string | number | undefined): string {
+  if (value == null) return "";
+  const str = String(value);
+  // Prefix formula-like values so spreadsheets don't execute them.
+  const safe =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(str) ? `'${str}` : str;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function renderCsv(data: DataImportResponse): string {
+  const columns = [
+    "name",
+    "url",
+    "lat",
+    "lng",
+    "rating",
+    "reviewCount",
+    "note",
+    "savedAt",
+    "kgId",
+    "photoUrl",
+  ];
+  const rows = data.places.map((place) => {
+    const props = placeProperties(place);
+    const coords = extractCoordinatesFromUrl(place.url);
+    const row: Record<string, string | number | undefined> = {
+      ...props,
+      lat: coords?.lat,
+      lng: coords?.lng,
+    };
+    return columns.map((col) => escapeCsv(row[col])).join(",");
+  });
+  return [columns.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+function renderGeoJson(data: DataImportResponse): string {
+  return JSON.stringify({
+    type: "FeatureCollection",
+    // Foreign members so clients can still paginate from a GeoJSON response.
+    collectionUrl: data.collectionUrl,
+    sessionId: data.sessionId,
+    pageInfo: data.pageInfo,
+    ...(data.collectionMeta && { collectionMeta: data.collectionMeta }),
+    features: data.places.map((place) => {
+      const coords = extractCoordinatesFromUrl(place.url);
+      return {
+        type: "Feature",
+        geometry: coords
+          ? { type: "Point", coordinates: [coords.lng, coords.lat] }
+          : null,
+        properties: placeProperties(place),
+      };
+    }),
+  });
+}
+
+function renderKml(data: DataImportResponse): string {
+  const name =
+    data.collectionMeta?.collectionName || "Google Maps collection";
+  const placemarks = data.places.flatMap((place) => {
+    const coords = extractCoordinatesFromUrl(place.url);
+    if (!coords) return [];
+
+    const { name: _name, ...props } = placeProperties(place);
+    const extended = Object.entries(props)
+      .map(
+        ([key, value]) =>
+          `        <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`,
+      )
+      .join("\n");
+
+    return [
+      `    <Placemark>
+      <name>${escapeXml(place.name)}</name>
+${place.note ? `      <description>${escapeXml(place.note)}</description>\n` : ""}      <ExtendedData>
+${extended}
+      </ExtendedData>
+      <Point><coordinates>${coords.lng},${coords.lat}</coordinates></Point>
+    </Placemark>`,
+    ];
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(name)}</name>
+${placemarks.join("\n")}
+  </Document>
+</kml>
+`;
+}
+
+function renderGpx(data: DataImportResponse): string {
+  const name =
+    data.collectionMeta?.collectionName || "Google Maps collection";
+  const waypoints = data.places.flatMap((place) => {
+    const coords = extractCoordinatesFromUrl(place.url);
+    if (!coords) return [];
+
+    const time = place.savedAt
+      ? `\n    <time>${new Date(place.savedAt * 1000).toISOString()}</time>`
+      : "";
+    const desc = place.note
+      ? `\n    <desc>${escapeXml(place.note)}</desc>`
+      : "";
+    const extensions = [
+      place.rating != null ? `<rating>${place.rating}</rating>` : "",
+      place.reviewCount != null
+        ? `<reviewCount>${place.reviewCount}</reviewCount>`
+        : "",
+      place.kgId ? `<kgId>${escapeXml(place.kgId)}</kgId>` : "",
+      place.photoUrl ? `<photoUrl>${escapeXml(place.photoUrl)}</photoUrl>` : "",
+    ].join("");
+
+    return [
+      `  <wpt lat="${coords.lat}" lon="${coords.lng}">${time}
+    <name>${escapeXml(place.name)}</name>${desc}
+    <link href="${escapeXml(place.url)}"/>${
+      extensions
+        ? `\n    <extensions><browserli:place>${extensions}</browserli:place></extensions>`
+        : ""
+    }
+  </wpt>`,
+    ];
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Browserli" xmlns="http://www.topografix.com/GPX/1/1" xmlns:browserli="https://browserli.drewr.dev/gpx/1">
+  <metadata><name>${escapeXml(name)}</name></metadata>
+${waypoints.join("\n")}
+</gpx>
+`;
+}
+
+/**
+ * Render a successful import response in the requested format.
+ *
+ * Pagination details travel in X-* headers for formats that can't carry
+ * them in the body, so clients can keep paging with sessionId + pageOffset.
+ */
+export function renderExport(
+  data: DataImportResponse,
+  format: ExportFormat,
+): Response {
+  const spec = FORMAT_SPECS[format];
+
+  if (format === "json") {
+    return new Response(JSON.stringify(data), {
+      status: 200,
+      headers: { "Content-Type": spec.contentType },
+    });
+  }
+
+  const body =
+    format === "csv"
+      ? renderCsv(data)
+      : format === "geojson"
+        ? renderGeoJson(data)
+        : format === "kml"
+          ? renderKml(data)
+          : renderGpx(data);
+
+  const slug = data.collectionMeta?.collectionId || "collection";
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": spec.contentType,
+      "Content-Disposition": `inline; filename="${slug.replace(/[^\w-]/g, "_")}-${data.pageInfo.startIndex}.${spec.extension}"`,
+      "X-Session-Id": data.sessionId,
+      "X-Page-Start": String(data.pageInfo.startIndex),
+      "X-Page-End": String(data.pageInfo.endIndex),
+      "X-Total-Count": String(data.pageInfo.totalCount),
+      "X-Has-Next-Page": String(data.pageInfo.hasNextPage),
+    },
+  });
+}
@@ -0,0 +1,351 @@
+/**
+ * Extraction Quality
+ *
+ * Every browser-extracted collection page is read twice: place cards from
+ * the DOM and place records from the AF_initDataCallback blob. When Google
+ * changes its markup one of the two usually breaks first, so comparing them
+ * shows drift before users notice missing data:
+ * - match rate: the share of DOM cards whose URL is also in the blob
+ * - missing fields: cards without a rating, review count, savedAt, kgId or
+ *   photo
+ * - totals: the blob's totalCount against the DOM pagination text
+ *
+ * Each page's stats are returned with the response (`quality`), together
+ * with the drift signals they raised. They are also added to an hourly
+ * rollup. Once enough samples in an hour raised signals (the share set by
+ * EXTRACTION_DRIFT_THRESHOLD), the hour is marked as drifting and an error
+ * is logged once, for log-based alerts to pick up. GET /extraction-quality
+ * shows the recent rollups.
+ *
+ * KV data model (shares the BROWSER_SESSIONS namespace):
+ * - Key: "quality:<hourStart>", e.g. "quality:2026-10-19T09"
+ * - Value: JSON QualityRollup
+ * - TTL: 8 days
+ *
+ * Like the quota counters, rollup updates are not atomic, so samples
+ * recorded at the same moment can overwrite each other.
+ */
+
+import { createLogger, Logger } from "./logger";
+import { PlaceCard } from "./types";
+
+const qualityLog = createLogger("ExtractionQuality");
+
+/** KV key prefix for hourly rollups. */
+const QUALITY_PREFIX = "quality:";
+
+/** TTL for rollups in seconds. */
+const ROLLUP_TTL_SECONDS = 8 * 24 * 60 * 60;
+
+/** Pages matching fewer DOM cards to the blob than this raise a signal. */
+export const LOW_MATCH_RATE = 0.9;
+
+/** A field missing from every card only counts on pages at least this big. */
+const MIN_CARDS_FOR_FIELD_CHECK = 10;
+
+/** An hour needs this many samples before it can be marked as drifting. */
+const DRIFT_MIN_SAMPLES = 5;
+
+/** Share of an hour's samples with drift signals that marks it as drifting. */
+export const DEFAULT_DRIFT_THRESHOLD = 0.5;
+
+/** Place card fields counted when missing. */
+export const QUALITY_FIELDS = [
+  "rating",
+  "reviewCount",
+  "savedAt",
+  "kgId",
+  "photoUrl",
+] as const;
+
+export type QualityField = (typeof QUALITY_FIELDS)[number];
+
+/**
+ * Why a page looks like Google's markup changed:
+ * - blob_missing: DOM cards were found but the blob had no places
+ * - dom_missing: the blob had places but no DOM cards were found
+ * - low_match_rate: fewer than LOW_MATCH_RATE of the cards were in the blob
+ * - total_mismatch: the blob and DOM pagination totals disagree
+ * - field_missing: a field is missing from every card on the page
+ */
+export type DriftSignal =
+  | "blob_missing"
+  | "dom_missing"
+  | "low_match_rate"
+  | "total_mismatch"
+  | "field_missing";
+
+export interface ExtractionQuality {
+  /** Place cards found in the DOM. */
+  domCount: number;
+  /** Place records found in the blob. */
+  blobCount: number;
+  /** DOM cards matched to a blob record. */
+  matched: number;
+  /** matched / domCount, or null without DOM cards. */
+  matchRate: number | null;
+  /** Cards missing each field; fields no card is missing are left out. */
+  missingFields: Partial<Record<QualityField, number>>;
+  /** totalCount from the DOM pagination text, or null if it wasn't found. */
+  domTotal: number | null;
+  /** totalCount from the blob, or null if it wasn't found. */
+  blobTotal: number | null;
+  /** blobTotal - domTotal, when both are known. */
+  totalDisagreement: number | null;
+  driftSignals: DriftSignal[];
+}
+
+/** One hour of quality stats, summed over the samples recorded in it. */
+export interface QualityRollup {
+  /** Start of the hour, e.g. "2026-10-19T09:00:00.000Z". */
+  hourStart: string;
+  /** Requests (or job and stream pages) recorded. */
+  samples: number;
+  /** Samples that raised at least one drift signal. */
+  driftSamples: number;
+  signals: Partial<Record<DriftSignal, number>>;
+  domCount: number;
+  blobCount: number;
+  matched: number;
+  /** matched / domCount over the hour, or null without DOM cards. */
+  matchRate: number | null;
+  missingFields: Partial<Record<QualityField, number>>;
+  /** Samples whose blob and DOM totals disagreed. */
+  totalMismatches: number;
+  /** Set when the hour first crossed the drift threshold. */
+  driftDetectedAt?: string;
+}
+
+export interface ExtractionQualityEnv {
+  EXTRACTION_DRIFT_THRESHOLD?: string;
+}
+
+/**
+ * The share of an hour's samples that must raise drift signals before the
+ * hour is marked as drifting. Invalid values are logged and ignored.
+ */
+export function driftThreshold(env: ExtractionQualityEnv): number {
+  const value = env.EXTRACTION_DRIFT_THRESHOLD;
+  if (value === undefined || value.trim() === "") {
+    return DEFAULT_DRIFT_THRESHOLD;
+  }
+  const threshold = Number(value);
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+    qualityLog.warn(
+      `Ignoring EXTRACTION_DRIFT_THRESHOLD "${value}" (expected a number between 0 and 1)`,
+    );
+    return DEFAULT_DRIFT_THRESHOLD;
+  }
+  return threshold;
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : null;
+}
+
+/**
+ * Quality stats for one extracted page. domTotal is 0 when the pagination
+ * text wasn't found, as getPaginationInfo reports it.
+ */
+export function measureExtractionQuality(page: {
+  places: PlaceCard[];
+  blobCount: number;
+  matched: number;
+  domTotal: number;
+  blobTotal?: number;
+}): ExtractionQuality {
+  const domCount = page.places.length;
+  const missingFields: Partial<Record<QualityField, number>> = {};
+  for (const field of QUALITY_FIELDS) {
+    const missing = page.places.filter((p) => p[field] === undefined).length;
+    if (missing > 0) {
+      missingFields[field] = missing;
+    }
+  }
+
+  const domTotal = page.domTotal > 0 ? page.domTotal : null;
+  const blobTotal = page.blobTotal ?? null;
+  const totalDisagreement =
+    domTotal !== null && blobTotal !== null ? blobTotal - domTotal : null;
+  const matchRate = ratio(page.matched, domCount);
+
+  const driftSignals: DriftSignal[] = [];
+  if (domCount > 0 && page.blobCount === 0) {
+    driftSignals.push("blob_missing");
+  }
+  if (page.blobCount > 0 && domCount === 0) {
+    driftSignals.push("dom_missing");
+  }
+  if (page.blobCount > 0 && matchRate !== null && matchRate < LOW_MATCH_RATE) {
+    driftSignals.push("low_match_rate");
+  }
+  if (totalDisagreement) {
+    driftSignals.push("total_mismatch");
+  }
+  if (
+    domCount >= MIN_CARDS_FOR_FIELD_CHECK &&
+    Object.values(missingFields).some((missing) => missing === domCount)
+  ) {
+    driftSignals.push("field_missing");
+  }
+
+  return {
+    domCount,
+    blobCount: page.blobCount,
+    matched: page.matched,
+    matchRate,
+    missingFields,
+    domTotal,
+    blobTotal,
+    totalDisagreement,
+    driftSignals,
+  };
+}
+
+function addCounts<K extends string>(
+  into: Partial<Record<K, number>>,
+  counts: Partial<Record<K, number>>,
+): void {
+  for (const [key, count] of Object.entries(counts) as [K, number][]) {
+    into[key] = (into[key] ?? 0) + count;
+  }
+}
+
+/**
+ * Combine the stats of consecutive pages fetched in one request. Counts are
+ * summed; totals are the collection's, so they come from the first page.
+ */
+export function mergeExtractionQuality(
+  qualities: ExtractionQuality[],
+): ExtractionQuality {
+  const first = qualities[0];
+  const merged: ExtractionQuality = {
+    ...first,
+    domCount: 0,
+    blobCount: 0,
+    matched: 0,
+    missingFields: {},
+    driftSignals: [],
+  };
+  for (const quality of qualities) {
+    merged.domCount += quality.domCount;
+    merged.blobCount += quality.blobCount;
+    merged.matched += quality.matched;
+    addCounts(merged.missingFields, quality.missingFields);
+    for (const signal of quality.driftSignals) {
+      if (!merged.driftSignals.includes(signal)) {
+        merged.driftSignals.push(signal);
+      }
+    }
+  }
+  merged.matchRate = ratio(merged.matched, merged.domCount);
+  return merged;
+}
+
+function rollupKey(hourStart: string): string {
+  return `${QUALITY_PREFIX}${hourStart.slice(0, 13)}`;
+}
+
+function hourStartOf(time: number): string {
+  const date = new Date(time);
+  date.setUTCMinutes(0, 0, 0);
+  return date.toISOString();
+}
+
+function emptyRollup(hourStart: string): QualityRollup {
+  return {
+    hourStart,
+    samples: 0,
+    driftSamples: 0,
+    signals: {},
+    domCount: 0,
+    blobCount: 0,
+    matched: 0,
+    matchRate: null,
+    missingFields: {},
+    totalMismatches: 0,
+  };
+}
+
+/**
+ * Add a sample to the current hour's rollup, and log an error the first
+ * time the hour crosses the drift threshold. Never throws: a failed write
+ * is logged and the sample dropped.
+ */
+export async function recordExtractionQuality(
+  kv: KVNamespace,
+  quality: ExtractionQuality,
+  threshold: number,
+  log: Logger = qualityLog,
+): Promise<void> {
+  const hourStart = hourStartOf(Date.now());
+  const key = rollupKey(hourStart);
+
+  try {
+    const rollup =
+      ((await kv.get(key, "json")) as QualityRollup | null) ??
+      emptyRollup(hourStart);
+
+    rollup.samples++;
+    rollup.domCount += quality.domCount;
+    rollup.blobCount += quality.blobCount;
+    rollup.matched += quality.matched;
+    rollup.matchRate = ratio(rollup.matched, rollup.domCount);
+    addCounts(rollup.missingFields, quality.missingFields);
+    if (quality.totalDisagreement) {
+      rollup.totalMismatches++;
+    }
+    if (quality.driftSignals.length > 0) {
+      rollup.driftSamples++;
+      for (const signal of quality.driftSignals) {
+        rollup.signals[signal] = (rollup.signals[signal] ?? 0) + 1;
+      }
+    }
+
+    if (
+      !rollup.driftDetectedAt &&
+      rollup.samples >= DRIFT_MIN_SAMPLES &&
+      rollup.driftSamples / rollup.samples >= threshold
+    ) {
+      rollup.driftDetectedAt = new Date().toISOString();
+      log.error(
+        `Extraction drift suspected: ${rollup.driftSamples}/${rollup.samples} samples this hour raised drift signals — Google's markup may have changed`,
+        {
+          hourStart,
+          signals: rollup.signals,
+          matchRate: rollup.matchRate,
+          missingFields: rollup.missingFields,
+          threshold,
+        },
+      );
+    }
+
+    await kv.put(key, JSON.stringify(rollup), {
+      expirationTtl: ROLLUP_TTL_SECONDS,
+    });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log.warn(`Failed to record extraction quality: ${msg}`);
+  }
+}
+
+/**
+ * The rollups for the last `hours` hours, newest first. Hours without
+ * samples are left out.
+ */
+export async function listQualityRollups(
+  kv: KVNamespace,
+  hours: number,
+): Promise<QualityRollup[]> {
+  const now = Date.now();
+  const hourStarts = Array.from({ length: hours }, (_, i) =>
+    hourStartOf(now - i * 60 * 60 * 1000),
+  );
+  const rollups = await Promise.all(
+    hourStarts.map(
+      (hourStart) =>
+        kv.get(rollupKey(hourStart), "json") as Promise<QualityRollup | null>,
+    ),
+  );
+  return rollups.filter((rollup): rollup is QualityRollup => rollup !== null);
+}
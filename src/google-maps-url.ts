@@ -0,0 +1,245 @@
+/**
+ * Google Maps URL Validation
+ *
+ * Guards every URL the Worker will load in a browser or fetch() against
+ * SSRF: only https Google Maps URLs on Google's own domains (including the
+ * international ccTLDs and maps.google.* subdomains) are accepted, and each
+ * accepted URL is classified by what it points at.
+ *
+ * maps.app.goo.gl short links (what the mobile share sheet produces) are
+ * resolved up front by following redirects manually, re-checking every hop,
+ * so a short link can never take the browser somewhere outside Google Maps.
+ */
+
+import { createLogger, Logger } from "./logger";
+
+const shortLinkLog = createLogger("ShortLink");
+
+/** Maximum redirects followed when resolving a short link. */
+const MAX_SHORT_LINK_HOPS = 5;
+
+/** Timeout for each short-link hop. */
+const SHORT_LINK_TIMEOUT = 5000;
+
+/** Query parameters added by share sheets and tracking that aren't part of the collection URL. */
+const TRACKING_PARAMS = ["g_st", "g_ep", "entry", "shorturl", "skid"];
+
+export type ShortLinkResolution =
+  | { ok: true; url: string; hops: number }
+  | { ok: false; error: string };
+
+/**
+ * Google's country-code domains (google.<suffix>), as published at
+ * https://www.google.com/supported_domains.
+ */
+const GOOGLE_DOMAIN_SUFFIXES = new Set([
+  "com", "ad", "ae", "com.af", "com.ag", "al", "am", "co.ao", "com.ar", "as",
+  "at", "com.au", "az", "ba", "com.bd", "be", "bf", "bg", "com.bh", "bi", "bj",
+  "com.bn", "com.bo", "com.br", "bs", "bt", "co.bw", "by", "com.bz", "ca",
+  "cat", "cd", "cf", "cg", "ch", "ci", "co.ck", "cl", "cm", "cn", "com.co",
+  "co.cr", "com.cu", "cv", "com.cy", "cz", "de", "dj", "dk", "dm", "com.do",
+  "dz", "com.ec", "ee", "com.eg", "es", "com.et", "fi", "com.fj", "fm", "fr",
+  "ga", "ge", "gg", "com.gh", "com.gi", "gl", "gm", "gr", "com.gt", "gy",
+  "com.hk", "hn", "hr", "ht", "hu", "co.id", "ie", "co.il", "im", "co.in",
+  "iq", "is", "it", "je", "com.jm", "jo", "co.jp", "co.ke", "com.kh", "ki",
+  "kg", "co.kr", "com.kw", "kz", "la", "com.lb", "li", "lk", "co.ls", "lt",
+  "lu", "lv", "com.ly", "co.ma", "md", "me", "mg", "mk", "ml", "com.mm", "mn",
+  "com.mt", "mu", "mv", "mw", "com.mx", "com.my", "co.mz", "com.na", "com.ng",
+  "com.ni", "ne", "nl", "no", "com.np", "nr", "nu", "co.nz", "com.om",
+  "com.pa", "com.pe", "com.pg", "com.ph", "com.pk", "pl", "pn", "com.pr", "ps",
+  "pt", "com.py", "com.qa", "ro", "rs", "ru", "rw", "com.sa", "com.sb", "sc",
+  "se", "com.sg", "sh", "si", "sk", "com.sl", "sn", "so", "sm", "sr", "st",
+  "com.sv", "td", "tg", "co.th", "com.tj", "tl", "tm", "tn", "to", "com.tr",
+  "tt", "com.tw", "co.tz", "com.ua", "co.ug", "co.uk", "com.uy", "co.uz",
+  "com.vc", "co.ve", "co.vi", "com.vn", "vu", "ws", "co.za", "co.zm", "co.zw",
+]);
+
+/** Subdomains of a Google domain that may serve Maps content. */
+const GOOGLE_MAPS_SUBDOMAINS = new Set(["", "www", "maps"]);
+
+/** Short-link host used by the Google Maps share sheet. */
+const SHORT_LINK_HOST = "maps.app.goo.gl";
+
+/**
+ * What a validated Google Maps URL points at:
+ * - collection → /collections/... (Google Collections list)
+ * - placelist  → /maps/placelists/... or /placelists/... (saved list)
+ * - place      → /maps/place/... (single place)
+ * - map        → any other /maps/... view (search, @lat,lng, data= lists)
+ * - shortlink  → maps.app.goo.gl link that still needs resolving
+ */
+export type GoogleMapsUrlKind =
+  | "collection"
+  | "placelist"
+  | "place"
+  | "map"
+  | "shortlink";
+
+export type GoogleMapsUrlCheck =
+  | { valid: true; kind: GoogleMapsUrlKind; hostname: string }
+  | { valid: false; reason: string };
+
+/**
+ * Check whether a hostname is exactly google.<cc>, www.google.<cc> or
+ * maps.google.<cc> for one of Google's own domains. Lookalikes such as
+ * google.com.evil.net or evilgoogle.com never match.
+ */
+export function isGoogleHost(hostname: string): boolean {
+  const labels = hostname.toLowerCase().split(".");
+  const googleIndex = labels.indexOf("google");
+  if (googleIndex === -1 || googleIndex > 1) {
+    return false;
+  }
+
+  const subdomain = labels.slice(0, googleIndex).join(".");
+  const suffix = labels.slice(googleIndex + 1).join(".");
+  return (
+    GOOGLE_MAPS_SUBDOMAINS.has(subdomain) && GOOGLE_DOMAIN_SUFFIXES.has(suffix)
+  );
+}
+
+/**
+ * Validate and classify a Google Maps URL to prevent SSRF attacks.
+ *
+ * Only https URLs on a Google host (see isGoogleHost) with a Maps,
+ * Collections or placelist path are accepted, plus maps.app.goo.gl links.
+ */
+export function classifyGoogleMapsUrl(url: string): GoogleMapsUrlCheck {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { valid: false, reason: "not a valid URL" };
+  }
+
+  // Only allow https
+  if (parsed.protocol !== "https:") {
+    return { valid: false, reason: "must use https" };
+  }
+
+  if (parsed.username || parsed.password || parsed.port) {
+    return { valid: false, reason: "must not include credentials or a port" };
+  }
+
+  const hostname = parsed.hostname.toLowerCase();
+
+  if (hostname === SHORT_LINK_HOST) {
+    return { valid: true, kind: "shortlink", hostname };
+  }
+
+  if (!isGoogleHost(hostname)) {
+    return { valid: false, reason: "host is not a Google domain" };
+  }
+
+  const path = parsed.pathname;
+  if (path.startsWith("/collections/")) {
+    return { valid: true, kind: "collection", hostname };
+  }
+  if (path.startsWith("/maps/placelists/") || path.startsWith("/placelists/")) {
+    return { valid: true, kind: "placelist", hostname };
+  }
+  if (path.startsWith("/maps/place/")) {
+    return { valid: true, kind: "place", hostname };
+  }
+  if (path.startsWith("/maps/")) {
+    return { valid: true, kind: "map", hostname };
+  }
+
+  return { valid: false, reason: "path is not a Google Maps page" };
+}
+
+/**
+ * Kind of a Google Maps URL, or undefined if it isn't one.
+ */
+export function googleMapsUrlKind(url: string): GoogleMapsUrlKind | undefined {
+  const check = classifyGoogleMapsUrl(url);
+  return check.valid ? check.kind : undefined;
+}
+
+/**
+ * Check whether a URL is a maps.app.goo.gl short link.
+ */
+export function isShortLink(url: string): boolean {
+  return googleMapsUrlKind(url) === "shortlink";
+}
+
+/**
+ * Strip share-sheet and tracking parameters so the resolved URL is stable.
+ */
+export function canonicaliseGoogleMapsUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (TRACKING_PARAMS.includes(key) || key.startsWith("utm_")) {
+        parsed.searchParams.delete(key);
+      }
+    }
+    parsed.hash = "";
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Resolve a maps.app.goo.gl short link to the Google Maps URL it points at.
+ *
+ * Redirects are followed one hop at a time. Each Location must be either
+ * another short link or a valid Google Maps URL (see classifyGoogleMapsUrl);
+ * anything else — including other Google hosts such as consent pages —
+ * rejects the whole chain. Resolution stops at the first Google Maps URL,
+ * which is returned canonicalised.
+ */
+export async function resolveShortLink(
+  url: string,
+  log: Logger = shortLinkLog,
+): Promise<ShortLinkResolution> {
+  let current = url;
+
+  for (let hop = 1; hop <= MAX_SHORT_LINK_HOPS; hop++) {
+    let response: Response;
+    try {
+      response = await fetch(current, {
+        method: "GET",
+        redirect: "manual",
+        signal: AbortSignal.timeout(SHORT_LINK_TIMEOUT),
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      log.error(`Failed to fetch ${current}: ${msg}`);
+      return { ok: false, error: "Short link could not be resolved" };
+    }
+
+    const location = response.headers.get("Location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      log.warn(`${current} returned ${response.status} without a redirect`);
+      return { ok: false, error: "Short link did not redirect" };
+    }
+
+    let next: string;
+    try {
+      next = new URL(location, current).toString();
+    } catch {
+      return { ok: false, error: "Short link redirected to an invalid URL" };
+    }
+
+    if (isShortLink(next)) {
+      current = next;
+      continue;
+    }
+
+    if (!classifyGoogleMapsUrl(next).valid) {
+      log.warn(`${url} redirected outside Google Maps: ${next}`);
+      return {
+        ok: false,
+        error: "Short link redirected outside Google Maps",
+      };
+    }
+
+    const resolved = canonicaliseGoogleMapsUrl(next);
+    log.info(`Resolved ${url} → ${resolved} (${hop} hops)`);
+    return { ok: true, url: resolved, hops: hop };
+  }
+
+  return { ok: false, error: "Short link redirected too many times" };
+}
@@ -0,0 +1,380 @@
+/**
+ * Import Jobs
+ *
+ * Background collection imports for /data-import job mode. The handler
+ * returns a job ID straight away and queues the job's first page on the
+ * IMPORT_JOBS queue. Each queue message (an ImportJobStep) extracts one
+ * page, POSTs it to the caller's callback URL, persists the job's progress
+ * and queues the next page, so a job isn't bound to the lifetime of the
+ * request that started it (ctx.waitUntil() is cut off about 30 seconds
+ * after the response).
+ *
+ * A step that fails with a retryable error is retried by the queue; a step
+ * that dies is redelivered. Either way its page may be POSTed more than
+ * once. Jobs whose progress hasn't moved for JOB_STALE_SECONDS (steps lost
+ * or out of retries) are failed by the scheduled sweep, failStaleImportJobs.
+ *
+ * KV data model (shares the BROWSER_SESSIONS namespace):
+ * - Key: "job:<jobId>"
+ * - Value: JSON string of ImportJob
+ * - Metadata: { status, updatedAt }, so the sweep can find stale jobs from
+ *   the key listing alone
+ * - TTL: 24 hours, so callers can poll the final status after completion
+ *
+ * Webhook deliveries are signed with HMAC-SHA256 over "<timestamp>.<body>"
+ * using the WEBHOOK_SECRET secret, and retried with exponential backoff on
+ * network errors, 429s and 5xx responses.
+ */
+
+import { ApiError, errorBody } from "./errors";
+import { createLogger, Logger, REQUEST_ID_HEADER } from "./logger";
+import { CollectionMeta, DataImportRequest } from "./types";
+
+const jobLog = createLogger("ImportJob");
+
+/** TTL for job records in seconds. */
+const JOB_TTL_SECONDS = 24 * 60 * 60;
+
+/** KV key prefix for job entries. */
+const JOB_PREFIX = "job:";
+
+/** Maximum delivery attempts per webhook event (including the first). */
+const WEBHOOK_MAX_ATTEMPTS = 5;
+
+/** Base delay for webhook retries; doubles on each attempt. */
+const WEBHOOK_BASE_DELAY_MS = 1000;
+
+/** Per-attempt timeout for webhook POSTs. */
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * A queued or running job whose progress hasn't moved for this long is
+ * failed. Well above the longest a step takes, including its retries.
+ */
+export const JOB_STALE_SECONDS = 10 * 60;
+
+export type ImportJobStatus = "queued" | "running" | "completed" | "failed";
+
+export type WebhookEvent = "page" | "completed" | "failed";
+
+export interface ImportJob {
+  jobId: string;
+  status: ImportJobStatus;
+  collectionUrl: string;
+  callbackUrl: string;
+  pageOffset: number;
+  sessionId?: string;
+  pagesDelivered: number;
+  placesDelivered: number;
+  totalCount?: number;
+  collectionMeta?: CollectionMeta;
+  createdAt: string;
+  updatedAt: string;
+  error?: string;
+}
+
+/** The /data-import options each step of a job runs with. */
+export type ImportJobOptions = Pick<
+  DataImportRequest,
+  "waitSeconds" | "priority" | "debug" | "locale"
+>;
+
+/**
+ * IMPORT_JOBS queue message: extract page pageNum of a job. Carries the job
+ * as of the previous step, so progress doesn't depend on a KV read that may
+ * lag behind the last write.
+ */
+export interface ImportJobStep {
+  job: ImportJob;
+  pageNum: number;
+  options: ImportJobOptions;
+  /** The request that started the job, for logs and callbacks. */
+  requestId?: string;
+}
+
+/** KV metadata stored with each job. */
+interface ImportJobMetadata {
+  status: ImportJobStatus;
+  updatedAt: string;
+}
+
+/**
+ * Check that a callback URL is safe to POST to.
+ *
+ * Only https is allowed. When allowedHosts (comma-separated) is set, the
+ * hostname must match one of its entries exactly.
+ */
+export function isValidCallbackUrl(url: string, allowedHosts?: string): boolean {
+  try {
+    const parsed = new URL(url);
+
+    if (parsed.protocol !== "https:") {
+      return false;
+    }
+
+    if (allowedHosts) {
+      const hosts = allowedHosts
+        .split(",")
+        .map((h) => h.trim().toLowerCase())
+        .filter(Boolean);
+      return hosts.includes(parsed.hostname.toLowerCase());
+    }
+
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Store a job entry in KV with the job TTL.
+ */
+async function putJob(kv: KVNamespace, job: ImportJob): Promise<void> {
+  const metadata: ImportJobMetadata = {
+    status: job.status,
+    updatedAt: job.updatedAt,
+  };
+  await kv.put(`${JOB_PREFIX}${job.jobId}`, JSON.stringify(job), {
+    expirationTtl: JOB_TTL_SECONDS,
+    metadata,
+  });
+}
+
+/**
+ * Create a queued import job.
+ */
+export async function createImportJob(
+  kv: KVNamespace,
+  params: {
+    collectionUrl: string;
+    callbackUrl: string;
+    pageOffset: number;
+    /** Session the first step asks the pool for. */
+    sessionId?: string;
+  },
+  log: Logger = jobLog,
+): Promise<ImportJob> {
+  const now = new Date().toISOString();
+  const job: ImportJob = {
+    jobId: crypto.randomUUID(),
+    status: "queued",
+    collectionUrl: params.collectionUrl,
+    callbackUrl: params.callbackUrl,
+    pageOffset: params.pageOffset,
+    ...(params.sessionId && { sessionId: params.sessionId }),
+    pagesDelivered: 0,
+    placesDelivered: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await putJob(kv, job);
+  log.info(`Created job ${job.jobId} for ${job.collectionUrl}`, {
+    jobId: job.jobId,
+  });
+  return job;
+}
+
+/**
+ * Apply changes to a job in place and persist it.
+ */
+export async function updateImportJob(
+  kv: KVNamespace,
+  job: ImportJob,
+  changes: Partial<Omit<ImportJob, "jobId" | "createdAt">>,
+): Promise<void> {
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  await putJob(kv, job);
+}
+
+/**
+ * Look up a job by ID. Returns null if unknown or expired.
+ */
+export async function getImportJob(
+  kv: KVNamespace,
+  jobId: string,
+): Promise<ImportJob | null> {
+  const value = await kv.get(`${JOB_PREFIX}${jobId}`);
+  return value ? (JSON.parse(value) as ImportJob) : null;
+}
+
+/**
+ * Compute the hex HMAC-SHA256 signature for a webhook delivery.
+ */
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${body}`),
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * POST a signed event to the job's callback URL.
+ *
+ * Retries with exponential backoff (1s, 2s, 4s, ...) plus jitter on network
+ * errors, 429 and 5xx. Other 4xx responses are treated as permanent. Returns
+ * true if the callback accepted the event. The request that started the job
+ * is sent as X-Request-Id so the receiver can match it with our logs.
+ */
+export async function deliverWebhook(
+  job: ImportJob,
+  event: WebhookEvent,
+  payload: object,
+  secret: string,
+  log: Logger = jobLog,
+): Promise<boolean> {
+  const requestId = log.context.requestId;
+  const body = JSON.stringify({ jobId: job.jobId, event, ...payload });
+
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    // Sign on every attempt so the timestamp stays fresh for replay checks.
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = await signWebhookPayload(secret, timestamp, body);
+
+    try {
+      const response = await fetch(job.callbackUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Browserli-Job-Id": job.jobId,
+          "X-Browserli-Event": event,
+          "X-Browserli-Timestamp": timestamp,
+          "X-Browserli-Signature": `sha256=${signature}`,
+          ...(requestId && { [REQUEST_ID_HEADER]: requestId }),
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+
+      if (response.ok) {
+        log.info(
+          `Delivered ${event} for job ${job.jobId} (attempt ${attempt})`,
+        );
+        return true;
+      }
+
+      if (response.status !== 429 && response.status < 500) {
+        log.error(
+          `Callback rejected ${event} for job ${job.jobId} with ${response.status} — not retrying`,
+        );
+        return false;
+      }
+
+      log.warn(
+        `Callback returned ${response.status} for ${event} (attempt ${attempt}/${WEBHOOK_MAX_ATTEMPTS})`,
+      );
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      log.warn(
+        `Callback error for ${event}: ${msg} (attempt ${attempt}/${WEBHOOK_MAX_ATTEMPTS})`,
+      );
+    }
+
+    if (attempt < WEBHOOK_MAX_ATTEMPTS) {
+      const delay =
+        WEBHOOK_BASE_DELAY_MS * 2 ** (attempt - 1) +
+        Math.floor(Math.random() * WEBHOOK_BASE_DELAY_MS);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  log.error(
+    `Giving up on ${event} for job ${job.jobId} after ${WEBHOOK_MAX_ATTEMPTS} attempts`,
+  );
+  return false;
+}
+
+/**
+ * Mark a job failed and send its failed event, with the progress made
+ * before the failure.
+ */
+export async function failImportJob(
+  kv: KVNamespace,
+  job: ImportJob,
+  error: ApiError,
+  secret: string,
+  log: Logger = jobLog,
+): Promise<void> {
+  await updateImportJob(kv, job, { status: "failed", error: error.message });
+  await deliverWebhook(
+    job,
+    "failed",
+    errorBody(error, {
+      collectionUrl: job.collectionUrl,
+      pagesDelivered: job.pagesDelivered,
+      placesDelivered: job.placesDelivered,
+      durationSeconds: (Date.now() - Date.parse(job.createdAt)) / 1000,
+    }),
+    secret,
+    log,
+  );
+}
+
+/**
+ * Fail every queued or running job whose progress hasn't moved for
+ * JOB_STALE_SECONDS, e.g. because its queue message ran out of retries.
+ * Run from the scheduled handler. Returns the number of jobs failed.
+ */
+export async function failStaleImportJobs(
+  kv: KVNamespace,
+  secret: string,
+  log: Logger = jobLog,
+): Promise<number> {
+  const staleBefore = Date.now() - JOB_STALE_SECONDS * 1000;
+  const isStale = (state: ImportJobMetadata | null | undefined): boolean =>
+    !!state &&
+    (state.status === "queued" || state.status === "running") &&
+    Date.parse(state.updatedAt) < staleBefore;
+
+  let failed = 0;
+  let cursor: string | undefined;
+  do {
+    const list = await kv.list<ImportJobMetadata>({
+      prefix: JOB_PREFIX,
+      cursor,
+    });
+    for (const entry of list.keys) {
+      if (!isStale(entry.metadata)) continue;
+
+      // The listing lags behind writes; only act on the job as stored.
+      const job = await getImportJob(kv, entry.name.slice(JOB_PREFIX.length));
+      if (!job || !isStale(job)) continue;
+
+      const minutes = Math.round(
+        (Date.now() - Date.parse(job.updatedAt)) / 60000,
+      );
+      log.warn(`Job ${job.jobId} stalled: no progress for ${minutes} minutes`);
+      const error = new ApiError(
+        "INTERNAL_ERROR",
+        `Job stalled: no progress for ${minutes} minutes`,
+      );
+      await failImportJob(
+        kv,
+        job,
+        error,
+        secret,
+        log.with({ jobId: job.jobId }),
+      );
+      failed++;
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+
+  return failed;
+}
@@ -1,144 +1,272 @@
 import { connect } from "@cloudflare/playwright";
 import {
+  AcquireOptions,
+  AcquireOutcome,
   acquirePooledSession,
+  AcquireRetryInfo,
   releasePooledSession,
   removePooledSession,
+  flagPooledSession,
   listPooledSessions,
-  MAX_CONCURRENT_SESSIONS,
+  InMemorySessionPool,
+  MAX_QUEUE_WAIT_SECONDS,
+  isPoolPriority,
+  normaliseWaitSeconds,
+  PoolPriority,
+  PoolUnavailable,
+  QueueInfo,
+  reapSessionPool,
+  reconcileSessionPool,
+  SessionPool,
+  SessionPoolConfig,
+  sessionPoolConfig,
+  startLeaseHeartbeat,
 } from "./session-pool";
+import {
+  durableObjectSessionPool,
+  SessionPoolDurableObject,
+} from "./session-pool-do";
+import {
+  createImportJob,
+  deliverWebhook,
+  failImportJob,
+  failStaleImportJobs,
+  getImportJob,
+  ImportJobStep,
+  isValidCallbackUrl,
+  updateImportJob,
+} from "./import-jobs";
+import {
+  ApiKeyIdentity,
+  ApiKeyQuotas,
+  ApiKeyScope,
+  authenticateApiKey,
+  bearerToken,
+  consumeQuota,
+  createApiKey,
+  deleteApiKey,
+  getKeyUsage,
+  listApiKeys,
+  requiredScope,
+  updateApiKey,
+  validateApiKeyFields,
+} from "./api-keys";
+import {
+  checkRateLimit,
+  InMemoryRateLimiter,
+  rateLimitBucket,
+  rateLimitHeaders,
+  RateLimiter,
+  RateLimitResult,
+} from "./rate-limit";
+import {
+  durableObjectRateLimiter,
+  RateLimitDurableObject,
+} from "./rate-limit-do";
+import {
+  createLogger,
+  Logger,
+  REQUEST_ID_HEADER,
+  requestLogger,
+} from "./logger";
+import {
+  activeSelectors,
+  DEFAULT_SELECTORS,
+  fallbacksUsed,
+  listSelectorVersions,
+  mergeSelectorMatches,
+  publishSelectors,
+  rollbackSelectors,
+  SelectorChains,
+  SelectorMatches,
+  SelectorUsage,
+  SelectorVersion,
+  validateSelectorChanges,
+} from "./selectors";
+import {
+  driftThreshold,
+  ExtractionQuality,
+  listQualityRollups,
+  measureExtractionQuality,
+  mergeExtractionQuality,
+  recordExtractionQuality,
+} from "./extraction-quality";
+import {
+  CollectionMeta,
+  DataImportRequest,
+  DataImportResponse,
+  PageInfo,
+  PlaceCard,
+} from "./types";
+import {
+  isExportFormat,
+  negotiateExportFormat,
+  renderExport,
+} from "./export-formats";
+import {
+  classifyGoogleMapsUrl,
+  googleMapsUrlKind,
+  isShortLink,
+  resolveShortLink,
+} from "./google-maps-url";
+import {
+  BlobWarning,
+  blobUnavailableWarning,
+  extractCallbackData,
+  parseCollectionBlob,
+  parseDataCallbackFromHtml,
+  ParsedCollectionBlob,
+} from "./blob-parser";
+import {
+  acceptLanguageHeader,
+  applyLocaleToUrl,
+  DEFAULT_LOCALE,
+  normaliseLocale,
+  parseBusinessStatus,
+  parsePaginationText,
+  parsePlaceCardText,
+  parseRatingLabel,
+  parseReviewCountLabel,
+} from "./locale";
+import {
+  BlockingCounts,
+  ResourceBlocker,
+  ResourceBlockingPolicy,
+  resourceBlockingPolicy,
+  ResourceBlockingStats,
+  resourceBlockingStats,
+} from "./resource-blocking";
+import { GoogleInterstitialError, passInterstitials } from "./interstitials";
+import {
+  ApiError,
+  classifyError,
+  errorBody,
+  errorResponse,
+} from "./errors";
 
 interface Env {
   BROWSER: any;
-  API_KEYS: string;
+  API_KEYS?: string; // Legacy comma-separated keys; see api-keys.ts.
+  API_RATE_LIMITER?: {
+    limit(options: { key: string }): Promise<{ success: boolean }>;
+  };
   BROWSER_SESSIONS: KVNamespace;
+  SESSION_POOL?: DurableObjectNamespace<SessionPoolDurableObject>;
+  RATE_LIMITER?: DurableObjectNamespace<RateLimitDurableObject>;
+  IMPORT_JOBS?: Queue<ImportJobStep>; // Job mode steps; see import-jobs.ts.
+  // Pool tuning, validated by sessionPoolConfig (see session-pool.ts).
+  SESSION_POOL_MAX_SESSIONS?: string;
+  SESSION_POOL_LOCAL_MAX_SESSIONS?: string;
+  SESSION_POOL_SESSION_TTL_SECONDS?: string;
+  SESSION_POOL_KEEP_ALIVE_SECONDS?: string;
+  SESSION_POOL_ACQUIRE_TIMEOUT_SECONDS?: string;
+  SESSION_POOL_ACQUIRE_RETRY_BUDGET_SECONDS?: string;
+  SESSION_POOL_PREFER_IDLE?: string;
+  SESSION_POOL_RESERVED_INTERACTIVE?: string;
+  // Per-endpoint resource blocking; see resource-blocking.ts.
+  BLOCK_RESOURCES_DATA_IMPORT?: string;
+  BLOCK_RESOURCES_PLACE_DETAILS?: string;
   USE_LOCAL_PLAYWRIGHT?: string;
   PLAYWRIGHT_SERVER_URL?: string;
+  WEBHOOK_SECRET?: string;
+  CALLBACK_ALLOWED_HOSTS?: string;
+  // Drift alarm threshold; see extraction-quality.ts.
+  EXTRACTION_DRIFT_THRESHOLD?: string;
 }
 
-interface DataImportRequest {
-  url: string;
-  sessionId?: string;
-  pageOffset?: number;
-  debug?: boolean;
-}
-
-interface PlaceCard {
-  name: string;
-  url: string;
-  rating?: number;
-  reviewCount?: number;
-  note?: string;
-  savedAt?: number;   // Unix timestamp (seconds) when place was saved to the collection.
-  kgId?: string;      // Google Knowledge Graph ID, e.g. "/g/11ltqq0zv9".
-  photoUrl?: string;  // First photo thumbnail URL from the collection blob.
-}
-
-interface PageInfo {
-  startIndex: number;
-  endIndex: number;
-  totalCount: number;
-  hasNextPage: boolean;
-}
-
-interface CollectionMeta {
-  collectionId?: string;
-  collectionName?: string;
-  totalCount?: number;
-}
-
-interface DataImportResponse {
-  success: boolean;
-  collectionUrl: string;
-  sessionId: string;
-  places: PlaceCard[];
-  pageInfo: PageInfo;
-  collectionMeta?: CollectionMeta;
-  durationSeconds: number;
-  error?: string;
-  debug?: {
-    htmlContent: string;
-    domStructure: string;
-  };
-}
+export { RateLimitDurableObject, SessionPoolDurableObject };
 
 const ITEMS_PER_PAGE = 200;
 const PAGE_LOAD_TIMEOUT = 30000; // 30 seconds for initial page load
-const NAVIGATION_TIMEOUT = 30000; // 30 seconds for pagination clicks
-const POLL_INTERVAL = 500; // ms between polls during pagination
-
-/**
- * Validate that a URL is a Google Maps collection/place URL to prevent SSRF attacks.
- */
-function isValidGoogleMapsUrl(url: string): boolean {
-  try {
-    const parsed = new URL(url);
+const NAVIGATION_TIMEOUT = 30000; // 30 seconds per page navigation
+const MAX_PAGES_PER_REQUEST = 10; // pageCount cap for one /data-import call
+const DEFAULT_PAGE_CONCURRENCY = 3; // tabs used when pageCount > 1
+const MAX_PAGE_CONCURRENCY = 5;
+const QUALITY_HISTORY_HOURS = 7 * 24; // furthest back /extraction-quality looks
+const JOB_STEP_MAX_ATTEMPTS = 3; // tries per job page before the job fails
+const FAST_PATH_TIMEOUT = 10000; // 10 seconds for browserless collection fetches
+const FAST_PATH_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36";
 
-    // Only allow https
-    if (parsed.protocol !== "https:") {
-      return false;
-    }
+/** Pool used when no SESSION_POOL binding is configured. */
+let fallbackSessionPool: InMemorySessionPool | undefined;
 
-    // Allow google.com domain with /maps/, /collections/, or /placelists/ paths
-    if (parsed.hostname.includes("google.com")) {
-      const path = parsed.pathname;
-      if (
-        path.includes("/maps/") ||
-        path.includes("/collections/") ||
-        path.includes("/placelists/")
-      ) {
-        return true;
-      }
-    }
+/** Rate limiter used when no RATE_LIMITER binding is configured. */
+let fallbackRateLimiter: InMemoryRateLimiter | undefined;
 
-    // Also allow maps.app.goo.gl short URLs
-    if (parsed.hostname === "maps.app.goo.gl") {
-      return true;
-    }
+/** Validated pool configuration; env doesn't change within an isolate. */
+let poolConfig: SessionPoolConfig | undefined;
 
-    return false;
-  } catch {
-    return false;
-  }
+/**
+ * The effective session pool configuration. Throws if the environment holds
+ * invalid values (see sessionPoolConfig).
+ */
+function getPoolConfig(env: Env): SessionPoolConfig {
+  poolConfig ??= sessionPoolConfig(env);
+  return poolConfig;
 }
 
 /**
- * Validate API key from request headers using constant-time comparison.
+ * The session pool coordinator: the SESSION_POOL Durable Object, or an
+ * in-memory pool (one isolate only) when the binding is missing.
  */
-function validateApiKey(request: Request, env: Env): boolean {
-  const authHeader = request.headers.get("Authorization");
-  if (!authHeader) {
-    return false;
-  }
-
-  const [scheme, token] = authHeader.split(" ");
-  if (scheme !== "Bearer") {
-    return false;
+function getSessionPool(env: Env): SessionPool {
+  if (env.SESSION_POOL) {
+    return durableObjectSessionPool(env.SESSION_POOL);
   }
-
-  const allowedKeys = env.API_KEYS.split(",").map((k) => k.trim());
-
-  // Use constant-time comparison to prevent timing attacks
-  for (const key of allowedKeys) {
-    if (timingSafeEqual(token, key)) {
-      return true;
-    }
+  if (!fallbackSessionPool) {
+    createLogger("SessionPool").warn(
+      "SESSION_POOL binding missing — using an in-memory pool that is not shared between isolates",
+    );
+    fallbackSessionPool = new InMemorySessionPool(
+      undefined,
+      Date.now,
+      getPoolConfig(env),
+    );
   }
-  return false;
+  return fallbackSessionPool;
 }
 
 /**
- * Constant-time string comparison to prevent timing attacks.
+ * The per-key rate limiter: a RATE_LIMITER Durable Object per key and
+ * bucket, or in-memory counters (one isolate only) when the binding is
+ * missing.
  */
-function timingSafeEqual(a: string, b: string): boolean {
-  if (a.length !== b.length) {
-    return false;
+function getRateLimiter(env: Env): RateLimiter {
+  if (env.RATE_LIMITER) {
+    return durableObjectRateLimiter(env.RATE_LIMITER);
   }
-
-  let result = 0;
-  for (let i = 0; i < a.length; i++) {
-    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  if (!fallbackRateLimiter) {
+    createLogger("RateLimit").warn(
+      "RATE_LIMITER binding missing — using in-memory counters that are not shared between isolates",
+    );
+    fallbackRateLimiter = new InMemoryRateLimiter();
   }
-  return result === 0;
+  return fallbackRateLimiter;
+}
+
+/**
+ * Acquire a pooled browser session with the configured keep-alive and
+ * acquire() retry budget. Throws BrowserAcquireError if Cloudflare stays
+ * rate limited.
+ */
+function acquireSession(
+  env: Env,
+  requestedSessionId?: string,
+  collectionUrl?: string,
+  options: AcquireOptions = {},
+): Promise<AcquireOutcome> {
+  return acquirePooledSession(
+    getSessionPool(env),
+    env.BROWSER,
+    requestedSessionId,
+    collectionUrl,
+    {
+      ...options,
+      keepAliveSeconds: getPoolConfig(env).keepAliveSeconds,
+      retryBudgetSeconds: getPoolConfig(env).acquireRetryBudgetSeconds,
+    },
+  );
 }
 
 /**
@@ -231,6 +359,7 @@ function handleRoot(): Response {
  */
 async function captureDebugInfo(
   page: any,
+  log: Logger,
 ): Promise<{ htmlContent: string; domStructure: string }> {
   try {
     const [htmlContent, domStructure] = await page.evaluate(() => {
@@ -275,7 +404,7 @@ async function captureDebugInfo(
 
     return { htmlContent, domStructure };
   } catch (error) {
-    console.error("[DataImport] Error capturing debug info:", error);
+    log.error("Error capturing debug info", { error: String(error) });
     return { htmlContent: "", domStructure: "" };
   }
 }
@@ -291,128 +420,86 @@ interface CollectionBlobResult {
   totalCount?: number;
   collectionId?: string;
   collectionName?: string;
+  warnings: BlobWarning[];
+}
+
+/**
+ * Build a lookup of normalised URL → CollectionPlaceData from a parsed blob,
+ * for matching against DOM-scraped hrefs.
+ */
+function toCollectionBlobResult(
+  parsed: ParsedCollectionBlob | null,
+  scriptFound: boolean,
+  log: Logger,
+): CollectionBlobResult {
+  if (!parsed) {
+    return {
+      places: new Map(),
+      warnings: [blobUnavailableWarning(scriptFound)],
+    };
+  }
+
+  const map = new Map<string, CollectionPlaceData>();
+  for (const entry of parsed.entries) {
+    const normalised = normaliseGoogleMapsUrl(entry.url);
+    map.set(normalised, {
+      savedAt: entry.savedAt,
+      kgId: entry.kgId,
+      photoUrl: entry.photoUrl,
+    });
+  }
+
+  for (const warning of parsed.warnings) {
+    log.warn(
+      `Blob schema v${parsed.schemaVersion}: ${warning.field} missing at ${warning.path} (${warning.missing}/${warning.total})`,
+    );
+  }
+
+  return {
+    places: map,
+    totalCount: parsed.totalCount,
+    collectionId: parsed.collectionId,
+    collectionName: parsed.collectionName,
+    warnings: parsed.warnings,
+  };
 }
 
 /**
  * Extract per-place data and collection metadata from the AF_initDataCallback blob.
  *
  * Google Collections pages embed a large data array in a <script class="ds:0"> tag.
- * Per-place fields extracted:
- *   - [5]       → Google Maps URL (used as the matching key)
- *   - [37][5]   → Knowledge Graph ID, e.g. "/g/11ltqq0zv9"
- *   - [43][0][0] → First photo thumbnail URL
- *   - [45][0]   → Unix timestamp (seconds) when place was saved to the collection
- *
- * Collection-level metadata (capturedData[13]):
- *   - [13][0]   → Collection ID
- *   - [13][2]   → Collection name
- *   - [13][3]   → Total place count (accurate across all pages)
+ * Only the script text is read from the page; decoding and field mapping
+ * happen in the Worker (see blob-parser.ts), so nothing is executed in the page.
  *
  * Returns a Map of normalised URL → CollectionPlaceData, plus collection metadata.
  */
 async function extractCollectionBlobData(
   page: any,
+  log: Logger,
 ): Promise<CollectionBlobResult> {
   try {
-    const extracted: {
-      entries: Array<{
-        url: string;
-        savedAt?: number;
-        kgId?: string;
-        photoUrl?: string;
-      }>;
-      totalCount?: number;
-      collectionId?: string;
-      collectionName?: string;
-    } = await page.evaluate(() => {
+    const scriptText: string | null = await page.evaluate(() => {
       const script = document.querySelector("script.ds\\:0");
-      if (!script) return { entries: [] };
-
-      // Re-execute AF_initDataCallback to capture the parsed data blob.
-      let capturedData: any = null;
-      const origFn = (window as any).AF_initDataCallback;
-      (window as any).AF_initDataCallback = (obj: any) => {
-        capturedData = obj.data;
-      };
-
-      try {
-        new Function(script.textContent || "")();
-      } catch (_) {
-        return { entries: [] };
-      }
-
-      (window as any).AF_initDataCallback = origFn;
-
-      if (!capturedData?.[1] || !Array.isArray(capturedData[1])) {
-        return { entries: [] };
-      }
-
-      // Collection-level metadata.
-      const meta = capturedData[13];
-      const totalCount =
-        typeof meta?.[3] === "number" ? meta[3] : undefined;
-      const collectionId =
-        typeof meta?.[0] === "string" ? meta[0] : undefined;
-      const collectionName =
-        typeof meta?.[2] === "string" ? meta[2] : undefined;
-
-      const entries: Array<{
-        url: string;
-        savedAt?: number;
-        kgId?: string;
-        photoUrl?: string;
-      }> = [];
-
-      for (const place of capturedData[1]) {
-        const url = place?.[5];
-        if (typeof url !== "string" || !url) continue;
-
-        const savedAtRaw = place?.[45]?.[0];
-        const kgIdRaw = place?.[37]?.[5];
-        const photoUrlRaw = place?.[43]?.[0]?.[0];
-
-        entries.push({
-          url,
-          savedAt:
-            typeof savedAtRaw === "number" && savedAtRaw > 0
-              ? savedAtRaw
-              : undefined,
-          kgId:
-            typeof kgIdRaw === "string" && kgIdRaw ? kgIdRaw : undefined,
-          photoUrl:
-            typeof photoUrlRaw === "string" && photoUrlRaw
-              ? photoUrlRaw
-              : undefined,
-        });
-      }
-
-      return { entries, totalCount, collectionId, collectionName };
+      return script ? script.textContent : null;
     });
 
-    // Build lookup map keyed by normalised URL pathname for matching against DOM-scraped hrefs.
-    const map = new Map<string, CollectionPlaceData>();
-    for (const entry of extracted.entries) {
-      const normalised = normaliseGoogleMapsUrl(entry.url);
-      map.set(normalised, {
-        savedAt: entry.savedAt,
-        kgId: entry.kgId,
-        photoUrl: entry.photoUrl,
-      });
-    }
+    const data = scriptText ? extractCallbackData(scriptText) : null;
+    const result = toCollectionBlobResult(
+      parseCollectionBlob(data),
+      scriptText !== null,
+      log,
+    );
 
-    console.log(
-      `[DataImport] Extracted ${map.size} place records from AF_initDataCallback blob`,
+    log.info(
+      `Extracted ${result.places.size} place records from AF_initDataCallback blob`,
     );
 
-    return {
-      places: map,
-      totalCount: extracted.totalCount,
-      collectionId: extracted.collectionId,
-      collectionName: extracted.collectionName,
-    };
+    return result;
   } catch (error) {
-    console.error("[DataImport] Error extracting collection blob data:", error);
-    return { places: new Map() };
+    log.error("Error extracting collection blob data", {
+      error: String(error),
+    });
+    return { places: new Map(), warnings: [blobUnavailableWarning(false)] };
   }
 }
 
@@ -453,59 +540,90 @@ function normaliseGoogleMapsUrl(url: string): string {
 /**
  * Extract place data from cards on current page.
  * Returns structured data from visible place cards ONLY on current viewport.
+ *
+ * The page script only collects raw card text; ratings and review counts are
+ * parsed here so localised forms ("4,5", "1,2 K") are handled (see locale.ts).
+ * Cards are found with the registry's placeLink, cardContainer and note
+ * chains (see selectors.ts); `matched` reports which selectors were used.
  */
-async function extractPlaceCardsFromPage(page: any): Promise<PlaceCard[]> {
+async function extractPlaceCardsFromPage(
+  page: any,
+  log: Logger,
+  selectors: SelectorChains,
+  locale: string = DEFAULT_LOCALE,
+): Promise<{ places: PlaceCard[]; matched: SelectorMatches }> {
   try {
-    const places = await page.evaluate(() => {
-      const placeCards: PlaceCard[] = [];
-
-      // Google Maps collection places: look for links with class "ir" (text-based cards)
-      // Important: we only extract from the current page viewport, not deduplicating across pages
-      // This ensures pagination works correctly
-      const placeLinks = document.querySelectorAll(
-        'a[href*="/maps/place/"][class*="ir"]',
-      );
+    const { cards, matched } = (await page.evaluate(
+      (chains: Record<string, string[]>) => {
+        const rawCards: Array<{ href: string; text: string; note?: string }> =
+          [];
+        const matched: Record<string, number | null> = {};
+
+        // Remember the furthest fallback a field needed on this page, or
+        // null if it never matched.
+        const record = (field: string, index: number | null) => {
+          const current = matched[field];
+          matched[field] =
+            current === undefined || current === null
+              ? index
+              : index === null
+                ? current
+                : Math.max(current, index);
+        };
+        // A selector the browser rejects is skipped like one that matched
+        // nothing, so a bad fallback can't cost the whole page.
+        const queryAll = (field: string, root: any): any[] => {
+          for (const [i, selector] of chains[field].entries()) {
+            let found: any[] = [];
+            try {
+              found = root.querySelectorAll(selector);
+            } catch (_) {
+              continue;
+            }
+            if (found.length > 0) {
+              record(field, i);
+              return Array.from(found);
+            }
+          }
+          record(field, null);
+          return [];
+        };
+        const closest = (field: string, el: any): any => {
+          for (const [i, selector] of chains[field].entries()) {
+            let found = null;
+            try {
+              found = el.closest(selector);
+            } catch (_) {
+              continue;
+            }
+            if (found) {
+              record(field, i);
+              return found;
+            }
+          }
+          record(field, null);
+          return null;
+        };
 
-      placeLinks.forEach((link) => {
-        try {
+        // Google Maps collection places: look for links with class "ir" (text-based cards)
+        // Important: we only extract from the current page viewport, not deduplicating across pages
+        // This ensures pagination works correctly
+        const placeLinks = queryAll("placeLink", document);
+
+        placeLinks.forEach((link: any) => {
           const href = (link as HTMLAnchorElement).href;
           if (!href || !href.includes("/maps/place/")) return;
 
-          const fullText = link.textContent?.trim() || "";
-          if (!fullText || fullText.length < 3) return;
-
-          // Parse: "Place Name4.5(88)" or "Place Name4.2(1.51K)" -> name, rating, reviews.
-          const match = fullText.match(/^(.+?)(\d+\.?\d*)\((\d+\.?\d*K?)\)$/);
-          let name = fullText;
-          let rating: number | undefined;
-          let reviewCount: number | undefined;
-
-          if (match) {
-            name = match[1].trim();
-            if (match[2]) rating = parseFloat(match[2]);
-            if (match[3]) {
-              const countStr = match[3];
-              if (countStr.endsWith("K")) {
-                reviewCount = Math.round(
-                  parseFloat(countStr.slice(0, -1)) * 1000,
-                );
-              } else {
-                reviewCount = parseInt(countStr);
-              }
-            }
-          }
-
-          // Fallback cleanup for any remaining rating/review suffixes.
-          name = name.replace(/\d+\.?\d*\s*\(\d+\.?\d*K?\)$/, "").trim();
-          if (!name || name.length < 2) return;
+          const text = link.textContent?.trim() || "";
+          if (!text || text.length < 3) return;
 
           // Extract user note from the card container.
           // Notes live in a span[role="textbox"] within the card's TOmvfe container,
           // with the full (untruncated) text in the aria-label attribute.
           let note: string | undefined;
-          const cardContainer = link.closest(".TOmvfe");
+          const cardContainer = closest("cardContainer", link);
           if (cardContainer) {
-            const noteEl = cardContainer.querySelector('span[role="textbox"]');
+            const noteEl = queryAll("note", cardContainer)[0];
             if (noteEl) {
               note =
                 noteEl.getAttribute("aria-label")?.trim() ||
@@ -514,1093 +632,3156 @@ async function extractPlaceCardsFromPage(page: any): Promise<PlaceCard[]> {
             }
           }
 
-          placeCards.push({ name, url: href, rating, reviewCount, note });
-        } catch (e) {
-          // Silently skip malformed entries
-        }
-      });
+          rawCards.push({ href, text, note });
+        });
 
-      return placeCards;
-    });
+        return { cards: rawCards, matched };
+      },
+      selectors,
+    )) as {
+      cards: Array<{ href: string; text: string; note?: string }>;
+      matched: SelectorMatches;
+    };
+
+    const places: PlaceCard[] = [];
+    for (const card of cards) {
+      // Parse: "Place Name4.5(88)" or "Place Name4,2(1,2 K)" -> name, rating, reviews.
+      const { name, rating, reviewCount } = parsePlaceCardText(
+        card.text,
+        locale,
+      );
+      if (!name || name.length < 2) continue;
+      places.push({ name, url: card.href, rating, reviewCount, note: card.note });
+    }
 
-    return places;
+    return { places, matched };
   } catch (error) {
-    console.error("[DataImport] Error extracting place cards:", error);
-    return [];
+    log.error("Error extracting place cards", { error: String(error) });
+    return { places: [], matched: {} };
   }
 }
 
 /**
  * Get pagination info from current page.
  * Returns total count and whether next page is available.
+ *
+ * Pagination text is localised ("1-200 of 237", "1–200 von 237"), so the page
+ * script returns the candidate texts for each selector in the pagination
+ * chain, and the first selector with text parsePaginationText can read is
+ * the one that matched.
  */
 async function getPaginationInfo(
   page: any,
-): Promise<{ total: number; hasNext: boolean }> {
+  log: Logger,
+  selectors: SelectorChains,
+): Promise<{ total: number; hasNext: boolean; matched: SelectorMatches }> {
   try {
-    return await page.evaluate(() => {
-      // Look for pagination text like "1-200 of 237"
-      const paginationEls = document.querySelectorAll(
-        '[role="navigation"], .Azx0Fe, [aria-label*="pagination"]',
-      );
+    const { textsBySelector, nextButtonIndex, nextDisabled } =
+      (await page.evaluate((chains: Record<string, string[]>) => {
+        // A selector the browser rejects counts as matching nothing.
+        const queryAll = (selector: string): any[] => {
+          try {
+            return Array.from(document.querySelectorAll(selector));
+          } catch (_) {
+            return [];
+          }
+        };
 
-      let total = 0;
-      let hasNext = false;
-
-      for (const el of paginationEls) {
-        const text = el.textContent || "";
-        // Match patterns like "1-200 of 237"
-        const match = text.match(/\d+-(\d+)\s+of\s+(\d+)/);
-        if (match) {
-          const endIndex = parseInt(match[1]);
-          total = parseInt(match[2]);
-          hasNext = endIndex < total;
-          break;
-        }
-      }
+        const textsBySelector = chains.pagination.map((selector) =>
+          queryAll(selector).map((el: any) => el.textContent || ""),
+        );
+
+        // Check if next button is enabled
+        const nextButtonIndex = chains.nextButton.findIndex(
+          (selector) => queryAll(selector).length > 0,
+        );
+        const nextButton =
+          nextButtonIndex === -1
+            ? null
+            : queryAll(chains.nextButton[nextButtonIndex])[0];
+
+        return {
+          textsBySelector,
+          nextButtonIndex,
+          nextDisabled: nextButton ? nextButton.hasAttribute("disabled") : null,
+        };
+      }, selectors)) as {
+        textsBySelector: string[][];
+        nextButtonIndex: number;
+        nextDisabled: boolean | null;
+      };
 
-      // Check if next button is enabled
-      const nextButton = document.querySelector(
-        'button[aria-label*="Next"], [aria-label*="next page"]',
-      ) as HTMLButtonElement;
-      if (nextButton) {
-        hasNext = !nextButton.hasAttribute("disabled");
+    let total = 0;
+    let hasNext = false;
+    let paginationIndex: number | null = null;
+
+    for (const [i, texts] of textsBySelector.entries()) {
+      const parsed = texts
+        .map((text) => parsePaginationText(text))
+        .find((candidate) => candidate !== null);
+      if (parsed) {
+        total = parsed.total;
+        hasNext = parsed.endIndex < parsed.total;
+        paginationIndex = i;
+        break;
       }
+    }
 
-      return { total, hasNext };
-    });
+    if (nextDisabled !== null) {
+      hasNext = !nextDisabled;
+    }
+
+    return {
+      total,
+      hasNext,
+      matched: {
+        pagination: paginationIndex,
+        nextButton: nextButtonIndex === -1 ? null : nextButtonIndex,
+      },
+    };
   } catch (error) {
-    console.error("[DataImport] Error getting pagination info:", error);
-    return { total: 0, hasNext: false };
+    log.error("Error getting pagination info", { error: String(error) });
+    return { total: 0, hasNext: false, matched: {} };
   }
 }
 
 /**
- * Click the next button to navigate to the next page.
+ * Build a browser-like proxy object that talks to the local Playwright
+ * server's HTTP API. This works in Worker environments without any
+ * Node.js dependencies.
  */
-async function goToNextPage(page: any): Promise<boolean> {
-  try {
-    // Use evaluate() for all DOM interaction so it works with both
-    // the local HTTP proxy and real Playwright page objects.
-    const buttonStatus = await page.evaluate(() => {
-      const btn = document.querySelector(
-        'button[aria-label*="Next page"], button[aria-label*="next"]',
-      ) as HTMLButtonElement | null;
-      if (!btn) return "not_found";
-      if (btn.disabled) return "disabled";
-      return "ready";
-    });
+function createLocalBrowserProxy(
+  playwrightServerUrl: string,
+  sessionId: string,
+): any {
+  return {
+    _playwrightServerUrl: playwrightServerUrl,
+    _sessionId: sessionId,
+    async newPage() {
+      // Delegate to the HTTP API on the local server
+      return {
+        _serverUrl: playwrightServerUrl,
+        _sessionId: sessionId,
+        _extraHeaders: undefined as Record<string, string> | undefined,
+        _blocking: undefined as ResourceBlockingPolicy | undefined,
+        async goto(url: string, options: any) {
+          const response = await fetch(`${playwrightServerUrl}/api/page/goto`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              url,
+              options,
+              sessionId,
+              headers: this._extraHeaders,
+              blocking: this._blocking,
+            }),
+          });
+          if (!response.ok) {
+            throw new Error(`Failed to navigate to ${url}`);
+          }
+          const data = await response.json();
+          return data;
+        },
+        async evaluate(fn: Function, arg?: unknown) {
+          // The argument must be JSON, e.g. the selector registry.
+          const response = await fetch(
+            `${playwrightServerUrl}/api/page/evaluate`,
+            {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ script: fn.toString(), arg, sessionId }),
+            },
+          );
+          if (!response.ok) {
+            const error = (await response.json()) as { error?: string };
+            throw new Error(`Failed to evaluate script: ${error.error}`);
+          }
+          const data = (await response.json()) as { result: any };
+          return data.result;
+        },
+        async waitForTimeout(ms: number) {
+          return new Promise((resolve) => setTimeout(resolve, ms));
+        },
+        async close() {
+          // Close page via HTTP
+          await fetch(`${playwrightServerUrl}/api/page/close`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ sessionId }),
+          });
+        },
+        async setExtraHTTPHeaders(headers: Record<string, string>) {
+          // Sent with the next goto and applied by the local server.
+          this._extraHeaders = headers;
+        },
+        setResourceBlocking(policy: ResourceBlockingPolicy) {
+          // No route() over HTTP; the local server intercepts instead.
+          this._blocking = policy;
+        },
+        async resourceBlockingCounts(): Promise<BlockingCounts> {
+          const response = await fetch(
+            `${playwrightServerUrl}/api/page/blocking-counts`,
+            {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ sessionId }),
+            },
+          );
+          return (await response.json()) as BlockingCounts;
+        },
+        async setDefaultTimeout() {},
+        async setDefaultNavigationTimeout() {},
+      };
+    },
+    async close() {
+      // Close browser
+    },
+  };
+}
 
-    if (buttonStatus === "not_found") {
-      console.log("[DataImport] No next button found");
-      return false;
-    }
+interface ImportBrowser {
+  browser: any;
+  sessionId: string;
+  /** True when the session was acquired via the pool and must be released. */
+  usingPool: boolean;
+  /** The pool lease, when usingPool. */
+  leaseId?: string;
+  /** Stops the pool lease heartbeat; called by releaseImportBrowser. */
+  stopHeartbeat: () => void;
+  /** The request's logger, tagged with sessionId. */
+  log: Logger;
+  /** Set when the request waited in the pool queue. */
+  queue?: QueueInfo;
+  /** Set when a fresh Cloudflare session was acquired. */
+  acquire?: AcquireRetryInfo;
+}
 
-    if (buttonStatus === "disabled") {
-      console.log("[DataImport] Next button is disabled");
-      return false;
-    }
+type OpenImportBrowserResult =
+  | ({ ok: true } & ImportBrowser)
+  | ({ ok: false } & PoolUnavailable);
 
-    console.log("[DataImport] Clicking next button...");
-
-    // Get initial place count and click in one evaluate call
-    const initialCount = await page.evaluate(() => {
-      const count = document.querySelectorAll(
-        'a[href*="/maps/place/"][class*="ir"]',
-      ).length;
-      const btn = document.querySelector(
-        'button[aria-label*="Next page"], button[aria-label*="next"]',
-      ) as HTMLButtonElement | null;
-      if (btn) btn.click();
-      return count;
-    });
-    console.log(`[DataImport] Initial card count: ${initialCount}`);
+/**
+ * Open a browser for a collection import.
+ *
+ * Uses the local Playwright HTTP proxy in development, otherwise acquires a
+ * session from the pool and connects to it (retrying once with a fresh
+ * session if the pooled one turns out to be dead). With waitSeconds, waits
+ * in the pool queue if every session is busy; priority picks the queue lane.
+ *
+ * Returns ok: false when no session is available — caller should return
+ * HTTP 503.
+ */
+async function openImportBrowser(
+  env: Env,
+  requestedSessionId: string | undefined,
+  collectionUrl: string,
+  log: Logger,
+  options: AcquireOptions = {},
+): Promise<OpenImportBrowserResult> {
+  // Determine if we should use local Playwright.
+  const useLocalPlaywright = env.USE_LOCAL_PLAYWRIGHT === "1";
+  log.info(
+    `useLocalPlaywright=${useLocalPlaywright}, env.USE_LOCAL_PLAYWRIGHT=${env.USE_LOCAL_PLAYWRIGHT}`,
+  );
+
+  if (useLocalPlaywright) {
+    log.info("Entering local Playwright code path");
+    // Local development: use HTTP proxy to local Playwright server
+    // This avoids any Node.js module imports in the Worker context
+    // Default to HTTP API server on port 3001 (not the WebSocket port 3000)
+    const playwrightServerUrl =
+      env.PLAYWRIGHT_SERVER_URL || "http://localhost:3001";
+
+    log.info(`Connecting to local Playwright server: ${playwrightServerUrl}`);
 
-    // Wait for the page to load new content by polling for DOM changes
-    let pageChanged = false;
-    let attempts = 0;
-    const maxAttempts = Math.ceil(NAVIGATION_TIMEOUT / POLL_INTERVAL);
+    try {
+      // For local Playwright, generate a sessionId upfront
+      const sessionId = `local-${Date.now()}`;
+      const browser = createLocalBrowserProxy(playwrightServerUrl, sessionId);
+      log.info(
+        `Connected to local Playwright server (HTTP proxy: ${sessionId})`,
+      );
+      return {
+        ok: true,
+        browser,
+        sessionId,
+        usingPool: false,
+        stopHeartbeat: () => {},
+        log: log.with({ sessionId }),
+      };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      log.error(`Failed to connect to local Playwright: ${msg}`);
+      throw new Error(
+        `Cannot connect to local Playwright server at ${playwrightServerUrl}. ` +
+          `Make sure it's running: npm run playwright:server`,
+      );
+    }
+  }
 
-    while (!pageChanged && attempts < maxAttempts) {
-      await page.waitForTimeout(POLL_INTERVAL);
+  // Production: use Cloudflare Browser Rendering API with session pool.
+  const poolResult = await acquireSession(
+    env,
+    requestedSessionId,
+    collectionUrl,
+    { ...options, log },
+  );
+
+  if (!poolResult.ok) {
+    // All browser sessions are currently in use.
+    return poolResult;
+  }
 
-      const currentCount = await page.evaluate(() => {
-        return document.querySelectorAll('a[href*="/maps/place/"][class*="ir"]')
-          .length;
-      });
+  let sessionId = poolResult.sessionId;
+  let leaseId = poolResult.leaseId;
+  let acquireInfo = poolResult.acquire;
+  let browser: any;
 
-      // Page has changed if the count is different (new content loaded)
-      if (currentCount !== initialCount) {
-        pageChanged = true;
-        console.log(
-          `[DataImport] Page changed detected. Old count: ${initialCount}, New count: ${currentCount}`,
-        );
-      }
+  try {
+    browser = await connect(env.BROWSER, sessionId);
+    log.info(
+      `Connected to session ${sessionId} (reused: ${poolResult.reused})`,
+    );
+  } catch (connectError) {
+    const msg =
+      connectError instanceof Error ? connectError.message : String(connectError);
+    log.error(`Failed to connect to session ${sessionId}: ${msg}`);
+
+    // Session is dead in CF but still tracked in KV — clean it up.
+    await removePooledSession(getSessionPool(env), sessionId, log);
+
+    // Retry once with a fresh session.
+    log.info(`Retrying with a fresh session`);
+    const retryResult = await acquireSession(env, undefined, collectionUrl, {
+      priority: options.priority,
+      log,
+    });
 
-      attempts++;
+    if (!retryResult.ok) {
+      return retryResult;
     }
 
-    if (!pageChanged) {
-      console.log(
-        "[DataImport] Warning: page did not change after clicking next button",
+    sessionId = retryResult.sessionId;
+    leaseId = retryResult.leaseId;
+    acquireInfo = retryResult.acquire;
+    try {
+      browser = await connect(env.BROWSER, sessionId);
+    } catch (retryError) {
+      await removePooledSession(getSessionPool(env), sessionId, log);
+      const retryMsg =
+        retryError instanceof Error ? retryError.message : String(retryError);
+      throw new ApiError(
+        "SESSION_DEAD",
+        `Could not connect to a browser session: ${retryMsg}`,
       );
     }
+    log.info(`Connected to retry session ${sessionId}`);
+  }
 
-    // Scroll to top to ensure we're at the start of the new page
-    await page.evaluate(() => {
-      window.scrollTo(0, 0);
-    });
+  // Keep the lease alive while the import works with the session.
+  const sessionLog = log.with({ sessionId });
+  const stopHeartbeat = startLeaseHeartbeat(
+    getSessionPool(env),
+    sessionId,
+    leaseId,
+    sessionLog,
+  );
+  return {
+    ok: true,
+    browser,
+    sessionId,
+    usingPool: true,
+    leaseId,
+    stopHeartbeat,
+    log: sessionLog,
+    ...(poolResult.queue && { queue: poolResult.queue }),
+    ...(acquireInfo && { acquire: acquireInfo }),
+  };
+}
 
-    return true;
-  } catch (error) {
-    console.error("[DataImport] Error navigating to next page:", error);
-    return false;
+/**
+ * Stop the lease heartbeat and release a pooled session back as idle.
+ */
+async function releaseImportBrowser(
+  env: Env,
+  opened: ImportBrowser,
+): Promise<void> {
+  opened.stopHeartbeat();
+  if (opened.usingPool && opened.leaseId) {
+    await releasePooledSession(
+      getSessionPool(env),
+      opened.sessionId,
+      opened.leaseId,
+      opened.log,
+    );
   }
 }
 
 /**
- * Data import handler - extracts place URLs from a Google Maps collection.
- * Handles pagination and returns batches of places.
+ * True when a tab's URL is the given collection, on any page of it.
  */
-async function handleDataImport(request: Request, env: Env): Promise<Response> {
-  const startTime = Date.now();
-
+function isCollectionTab(tabUrl: string, collectionUrl: string): boolean {
   try {
-    const body = (await request.json()) as DataImportRequest;
+    const tab = new URL(tabUrl);
+    const collection = new URL(collectionUrl);
+    return (
+      tab.host === collection.host && tab.pathname === collection.pathname
+    );
+  } catch (_) {
+    return false;
+  }
+}
 
-    if (!body.url) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Missing required field: url",
-        }),
-        { status: 400, headers: { "Content-Type": "application/json" } },
-      );
+/**
+ * Get a tab for a collection page.
+ *
+ * Pooled sessions keep the tab of the collection they last loaded open (see
+ * keepCollectionTab), so the pool steers follow-up pagination calls to the
+ * same session and the tab is reused here instead of opening a cold one.
+ * warm is true when an existing tab was reused. The local proxy has no
+ * contexts() and always gets a new page.
+ */
+async function openCollectionTab(
+  opened: ImportBrowser,
+  collectionUrl: string,
+): Promise<{ page: any; warm: boolean }> {
+  if (opened.usingPool) {
+    try {
+      for (const context of opened.browser.contexts?.() ?? []) {
+        for (const page of context.pages()) {
+          if (isCollectionTab(page.url(), collectionUrl)) {
+            opened.log.info(`Reusing warm tab: ${page.url()}`);
+            return { page, warm: true };
+          }
+        }
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      opened.log.warn(`Could not list open tabs: ${msg}`);
     }
+  }
+  return { page: await opened.browser.newPage(), warm: false };
+}
 
-    // Validate URL to prevent SSRF attacks
-    if (!isValidGoogleMapsUrl(body.url)) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error:
-            "Invalid URL: must be a valid Google Maps collection or place URL",
-        }),
-        { status: 400, headers: { "Content-Type": "application/json" } },
-      );
+/**
+ * Leave a collection tab open for the next pagination call and close any
+ * other tabs in the session, so each pooled session holds at most one.
+ * Local proxy pages are just closed.
+ */
+async function keepCollectionTab(
+  opened: ImportBrowser,
+  page: any,
+): Promise<void> {
+  if (!opened.usingPool) {
+    await page.close();
+    return;
+  }
+  try {
+    for (const context of opened.browser.contexts?.() ?? []) {
+      for (const other of context.pages()) {
+        if (other !== page) {
+          await other.close();
+        }
+      }
     }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    opened.log.warn(`Could not close stale tabs: ${msg}`);
+  }
+}
 
-    // Use session reuse if sessionId provided, otherwise start new session.
-    let browser: any;
-    let sessionId: string;
-    let usingPool = false; // Track whether we acquired via the KV pool.
+/**
+ * Error message for a request that couldn't get a browser session.
+ */
+function poolUnavailableMessage(unavailable: PoolUnavailable): string {
+  switch (unavailable.reason) {
+    case "queue_full":
+      return "All browser sessions are busy and the wait queue is full. Please retry shortly.";
+    case "timeout":
+      return "Timed out waiting for a browser session. Please retry shortly.";
+    default:
+      return "All browser sessions are currently busy. Please retry shortly.";
+  }
+}
 
-    // Determine if we should use local Playwright.
-    const useLocalPlaywright = env.USE_LOCAL_PLAYWRIGHT === "1";
-    console.log(
-      `[DataImport] useLocalPlaywright=${useLocalPlaywright}, env.USE_LOCAL_PLAYWRIGHT=${env.USE_LOCAL_PLAYWRIGHT}`,
+/**
+ * Take a session Google is blocking out of rotation and close its browser,
+ * so Cloudflare frees the slot. Only bot walls flag; a consent page that
+ * couldn't be accepted says nothing about the session.
+ */
+async function flagBlockedSession(
+  env: Env,
+  sessionId: string,
+  browser: any,
+  error: GoogleInterstitialError,
+  log: Logger,
+): Promise<void> {
+  if (!error.botWall) {
+    return;
+  }
+  await flagPooledSession(getSessionPool(env), sessionId, error.kind, log);
+  try {
+    await browser?.close();
+  } catch (_) {
+    // Session may already be gone.
+  }
+}
+
+/**
+ * POOL_FULL response for a request that couldn't get a browser session.
+ * poolFull is kept for clients that predate the error codes.
+ */
+function poolFullResponse(
+  unavailable: PoolUnavailable,
+  options: {
+    retryAfterSeconds?: number;
+    headers?: Record<string, string>;
+  } = {},
+): Response {
+  return errorResponse("POOL_FULL", poolUnavailableMessage(unavailable), {
+    ...options,
+    fields: {
+      poolFull: true,
+      reason: unavailable.reason,
+      ...(unavailable.queue && { queue: unavailable.queue }),
+    },
+  });
+}
+
+/** Per-request options for collection page extraction. */
+interface CollectionPageOptions {
+  /** The registry version to extract with (see selectors.ts). */
+  selectors: SelectorVersion;
+  debug?: boolean;
+  locale?: string;
+  /** The page is a reused tab that may already show the target URL. */
+  warm?: boolean;
+  /** Applied to the extra tabs opened by extractCollectionPages. */
+  resourceBlocker?: ResourceBlocker;
+}
+
+interface CollectionPageResult {
+  places: PlaceCard[];
+  pageInfo: PageInfo;
+  collectionMeta?: CollectionMeta;
+  warnings?: BlobWarning[];
+  quality: ExtractionQuality;
+  selectors: SelectorUsage;
+  debug?: {
+    htmlContent: string;
+    domStructure: string;
+  };
+}
+
+/**
+ * The error for a page that came back empty when it shouldn't have: the
+ * collection has places at its offset, or it is the first page of a walk
+ * and the blob doesn't confirm there is nothing there. Returns null for a
+ * page that may be empty.
+ */
+function emptyPageError(
+  result: CollectionPageResult,
+  pageNum: number,
+  firstPage: boolean,
+): ApiError | null {
+  const { startIndex, totalCount } = result.pageInfo;
+  const blobTotal = result.quality.blobTotal;
+  if (
+    result.places.length > 0 ||
+    (totalCount < startIndex &&
+      !(firstPage && (blobTotal === null || blobTotal >= startIndex)))
+  ) {
+    return null;
+  }
+  return new ApiError(
+    "EXTRACTION_EMPTY",
+    `No places found on page ${pageNum + 1} of the collection`,
+    { fields: { quality: result.quality } },
+  );
+}
+
+/**
+ * Load a single collection page and extract its place cards.
+ *
+ * Navigates directly to the page using the pageNumber query param, merges
+ * blob data (savedAt, kgId, photoUrl) into the DOM-scraped cards and works
+ * out pagination from the blob totalCount (falling back to the DOM). The
+ * two sources are compared for the page's quality stats (see
+ * extraction-quality.ts).
+ *
+ * When options.locale is set, the page is requested in that language (hl
+ * param and Accept-Language) and its text is parsed accordingly. A warm
+ * tab that already shows the target URL is not reloaded.
+ *
+ * Throws GoogleInterstitialError if Google shows a captcha or block page
+ * (or a consent page that can't be accepted) instead of the collection.
+ */
+async function extractCollectionPage(
+  page: any,
+  collectionUrl: string,
+  pageNum: number,
+  log: Logger,
+  options: CollectionPageOptions,
+): Promise<CollectionPageResult> {
+  const { selectors, debug, locale, warm } = options;
+
+  // Navigate directly to the correct page using the pageNumber query param.
+  // Google Collections supports ?pageNumber=N (1-indexed) for stable pagination —
+  // this is simpler and more reliable than click-based navigation, and also
+  // triggers a fresh AF_initDataCallback blob for each page's places.
+  let targetUrl =
+    pageNum > 0 ? addPageNumberToUrl(collectionUrl, pageNum) : collectionUrl;
+  if (locale) {
+    targetUrl = applyLocaleToUrl(targetUrl, locale);
+    await page.setExtraHTTPHeaders({
+      "Accept-Language": acceptLanguageHeader(locale),
+    });
+  }
+  const gotoOptions = {
+    waitUntil: "domcontentloaded",
+    timeout: PAGE_LOAD_TIMEOUT,
+  };
+  if (warm && page.url() === targetUrl) {
+    log.info(`Collection page ${pageNum + 1} already loaded in warm tab`);
+  } else {
+    log.info(`Loading collection page ${pageNum + 1}: ${targetUrl}`);
+    await page.goto(targetUrl, gotoOptions);
+  }
+
+  // A consent page is accepted here; captchas and block pages throw.
+  await passInterstitials(page, targetUrl, gotoOptions, log);
+
+  // Extract per-place data and collection metadata from the embedded blob.
+  const blobData = await extractCollectionBlobData(page, log);
+
+  // Extract place cards from the current page DOM.
+  log.info(`Extracting places from page ${pageNum + 1}...`);
+  const cards = await extractPlaceCardsFromPage(
+    page,
+    log,
+    selectors.selectors,
+    locale,
+  );
+  const { places } = cards;
+
+  // Merge blob data (savedAt, kgId, photoUrl) into place cards by matching normalised URLs.
+  let matched = 0;
+  if (blobData.places.size > 0) {
+    for (const place of places) {
+      const normalised = normaliseGoogleMapsUrl(place.url);
+      const data = blobData.places.get(normalised);
+      if (data) {
+        if (data.savedAt) place.savedAt = data.savedAt;
+        if (data.kgId) place.kgId = data.kgId;
+        if (data.photoUrl) place.photoUrl = data.photoUrl;
+        matched++;
+      }
+    }
+    log.info(`Matched ${matched}/${places.length} places with blob data`);
+  }
+
+  if (places.length === 0) {
+    log.info("No places found on current page");
+  } else {
+    log.info(`Found ${places.length} places on page ${pageNum + 1}`);
+  }
+
+  // Get pagination info — use blob totalCount as primary source (more reliable than DOM).
+  const pagination = await getPaginationInfo(page, log, selectors.selectors);
+  const { total: domTotal, hasNext } = pagination;
+  const totalCount = blobData.totalCount ?? domTotal;
+
+  log.info(
+    `Pagination info: total=${totalCount}, hasNext=${hasNext}, itemsExtracted=${places.length}`,
+  );
+
+  const quality = measureExtractionQuality({
+    places,
+    blobCount: blobData.places.size,
+    matched,
+    domTotal,
+    blobTotal: blobData.totalCount,
+  });
+  const selectorMatches = { ...cards.matched, ...pagination.matched };
+  const fallbacks = fallbacksUsed(selectorMatches);
+  if (Object.keys(fallbacks).length > 0) {
+    log.warn(`Selector fallbacks used on page ${pageNum + 1}`, {
+      selectorVersion: selectors.version,
+      fallbacks,
+    });
+  }
+  if (quality.driftSignals.length > 0) {
+    log.warn(`Drift signals on page ${pageNum + 1}`, {
+      signals: quality.driftSignals,
+      matchRate: quality.matchRate,
+      missingFields: quality.missingFields,
+      domTotal: quality.domTotal,
+      blobTotal: quality.blobTotal,
+    });
+  }
+
+  // Capture debug info if requested
+  let debugInfo: { htmlContent: string; domStructure: string } | undefined;
+  if (debug) {
+    log.info("Capturing debug information...");
+    debugInfo = await captureDebugInfo(page, log);
+  }
+
+  const startIndex = pageNum * ITEMS_PER_PAGE + 1;
+  const endIndex = startIndex + places.length - 1;
+
+  return {
+    places,
+    pageInfo: {
+      startIndex,
+      endIndex,
+      totalCount,
+      hasNextPage: hasNext && endIndex < totalCount,
+    },
+    ...(blobData.collectionId ||
+    blobData.collectionName ||
+    blobData.totalCount != null
+      ? {
+          collectionMeta: {
+            collectionId: blobData.collectionId,
+            collectionName: blobData.collectionName,
+            totalCount: blobData.totalCount,
+          },
+        }
+      : {}),
+    ...(blobData.warnings.length > 0 && { warnings: blobData.warnings }),
+    quality,
+    selectors: { version: selectors.version, matched: selectorMatches },
+    ...(debugInfo && { debug: debugInfo }),
+  };
+}
+
+/**
+ * Derive a place name from a /maps/place/<Name>/ URL.
+ * Used by the fetch fast path, which has no DOM cards to read names from.
+ */
+function placeNameFromUrl(url: string): string | undefined {
+  const match = url.match(/\/maps\/place\/([^/?#]+)/);
+  if (!match) return undefined;
+  try {
+    return decodeURIComponent(match[1].replace(/\+/g, " ")).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Browserless fast path: fetch a collection page with plain fetch() and build
+ * the result from the ds:0 blob alone.
+ *
+ * The blob has URLs, savedAt, kgId, photoUrl and the collection totals, but
+ * not ratings, review counts or notes, so those are left unset. Returns null
+ * whenever the page can't be used (non-200, redirected off Google, no blob,
+ * no totalCount) so the caller can fall back to the browser pool. No DOM
+ * selectors are used and there are no DOM cards to compare the blob with,
+ * so the result has no selector usage or quality stats.
+ */
+async function fetchCollectionPageDirect(
+  collectionUrl: string,
+  pageNum: number,
+  log: Logger,
+  locale?: string,
+): Promise<Omit<CollectionPageResult, "quality" | "selectors"> | null> {
+  let targetUrl =
+    pageNum > 0 ? addPageNumberToUrl(collectionUrl, pageNum) : collectionUrl;
+  if (locale) {
+    targetUrl = applyLocaleToUrl(targetUrl, locale);
+  }
+
+  try {
+    log.info(`Fetching collection page ${pageNum + 1}: ${targetUrl}`);
+    const response = await fetch(targetUrl, {
+      headers: {
+        "User-Agent": FAST_PATH_USER_AGENT,
+        Accept: "text/html,application/xhtml+xml",
+        "Accept-Language": locale
+          ? acceptLanguageHeader(locale)
+          : "en-US,en;q=0.9",
+      },
+      signal: AbortSignal.timeout(FAST_PATH_TIMEOUT),
+    });
+
+    if (!response.ok) {
+      log.info(`Fetch returned ${response.status}`);
+      return null;
+    }
+
+    // Redirects (e.g. to a consent page) must still land on a Maps URL.
+    if (!classifyGoogleMapsUrl(response.url).valid) {
+      log.info(`Redirected off Google Maps to ${response.url}`);
+      return null;
+    }
+
+    const html = await response.text();
+    const parsed = parseCollectionBlob(parseDataCallbackFromHtml(html, "ds:0"));
+
+    if (!parsed || parsed.totalCount == null) {
+      log.info("No usable ds:0 blob in fetched HTML");
+      return null;
+    }
+
+    const places: PlaceCard[] = [];
+    for (const entry of parsed.entries) {
+      const name = placeNameFromUrl(entry.url);
+      if (!name) continue;
+      places.push({
+        name,
+        url: entry.url,
+        ...(entry.savedAt && { savedAt: entry.savedAt }),
+        ...(entry.kgId && { kgId: entry.kgId }),
+        ...(entry.photoUrl && { photoUrl: entry.photoUrl }),
+      });
+    }
+
+    const startIndex = pageNum * ITEMS_PER_PAGE + 1;
+    const endIndex = startIndex + places.length - 1;
+
+    log.info(`Extracted ${places.length} places (total=${parsed.totalCount})`);
+
+    return {
+      places,
+      pageInfo: {
+        startIndex,
+        endIndex,
+        totalCount: parsed.totalCount,
+        hasNextPage: places.length > 0 && endIndex < parsed.totalCount,
+      },
+      collectionMeta: {
+        collectionId: parsed.collectionId,
+        collectionName: parsed.collectionName,
+        totalCount: parsed.totalCount,
+      },
+      ...(parsed.warnings.length > 0 && { warnings: parsed.warnings }),
+    };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log.info(`Fetch failed: ${msg}`);
+    return null;
+  }
+}
+
+interface WalkedCollectionPage extends CollectionPageResult {
+  pageNum: number;
+  durationSeconds: number;
+}
+
+/**
+ * Walk a collection page by page starting at startPageNum, yielding each
+ * page as soon as it has been extracted.
+ *
+ * Uses ?pageNumber=N navigation and stops once the blob totalCount has been
+ * reached (or a page comes back empty), so callers don't need to loop
+ * sessionId + pageOffset themselves.
+ */
+async function* walkCollectionPages(
+  page: any,
+  collectionUrl: string,
+  startPageNum: number,
+  log: Logger,
+  options: CollectionPageOptions,
+): AsyncGenerator<WalkedCollectionPage> {
+  let pageNum = startPageNum;
+
+  while (true) {
+    const pageStart = Date.now();
+    const result = await extractCollectionPage(
+      page,
+      collectionUrl,
+      pageNum,
+      log,
+      options,
     );
 
-    if (useLocalPlaywright) {
-      console.log("[DataImport] Entering local Playwright code path");
-      // Local development: use HTTP proxy to local Playwright server
-      // This avoids any Node.js module imports in the Worker context
-      // Default to HTTP API server on port 3001 (not the WebSocket port 3000)
-      const playwrightServerUrl =
-        env.PLAYWRIGHT_SERVER_URL || "http://localhost:3001";
+    yield {
+      ...result,
+      pageNum,
+      durationSeconds: (Date.now() - pageStart) / 1000,
+    };
+
+    if (
+      result.places.length === 0 ||
+      result.pageInfo.endIndex >= result.pageInfo.totalCount
+    ) {
+      return;
+    }
+    pageNum++;
+  }
+}
+
+/**
+ * The pool priority class for a request. Keys that may run collection
+ * imports (data-import or admin scope) can pick either class with the
+ * `priority` field; other keys always run as batch. Without the field the
+ * route's default applies.
+ */
+function poolPriorityFor(
+  requested: PoolPriority | undefined,
+  apiKey: ApiKeyIdentity,
+  fallback: PoolPriority,
+): PoolPriority {
+  const mayRunInteractive =
+    apiKey.scopes.includes("data-import") || apiKey.scopes.includes("admin");
+  const priority = requested ?? fallback;
+  return priority === "interactive" && !mayRunInteractive ? "batch" : priority;
+}
+
+/**
+ * Extract up to pageCount consecutive collection pages starting at
+ * startPageNum, using up to `concurrency` tabs in the session.
+ *
+ * The first page loads in `page` to learn the collection's totalCount; the
+ * remaining pages (capped at the end of the collection) are then shared
+ * out between the tabs. ?pageNumber navigation makes the pages independent,
+ * so they can load in any order — results come back sorted by page number.
+ * The local proxy holds one page per session, so it fetches them in turn.
+ * Extra tabs are closed before returning; `page` is left to the caller.
+ *
+ * A page that fails doesn't fail the request: the result is the run of
+ * pages from startPageNum up to the first one that failed or came back
+ * short, so the caller can resume after its endIndex. The first page's
+ * errors are still thrown, as is a bot wall on any page, so the session
+ * gets flagged.
+ */
+async function extractCollectionPages(
+  opened: ImportBrowser,
+  page: any,
+  collectionUrl: string,
+  startPageNum: number,
+  pageCount: number,
+  concurrency: number,
+  options: CollectionPageOptions,
+): Promise<CollectionPageResult[]> {
+  const first = await extractCollectionPage(
+    page,
+    collectionUrl,
+    startPageNum,
+    opened.log,
+    options,
+  );
+  const finalPageNum =
+    Math.ceil(first.pageInfo.totalCount / ITEMS_PER_PAGE) - 1;
+  const lastPageNum = Math.min(startPageNum + pageCount - 1, finalPageNum);
+  // A short first page is either the collection's last or incomplete.
+  if (first.places.length < ITEMS_PER_PAGE || lastPageNum <= startPageNum) {
+    return [first];
+  }
+
+  const remaining: number[] = [];
+  for (let pageNum = startPageNum + 1; pageNum <= lastPageNum; pageNum++) {
+    remaining.push(pageNum);
+  }
+  const tabCount = opened.usingPool
+    ? Math.min(concurrency, remaining.length + 1)
+    : 1;
+  // Debug capture is only returned for the first page.
+  const pageOptions = { ...options, debug: false, warm: false };
+  const results = new Map<number, CollectionPageResult>([
+    [startPageNum, first],
+  ]);
+  const tabs = [page];
+  let failures: PromiseRejectedResult[] = [];
+
+  try {
+    for (let i = 1; i < tabCount; i++) {
+      const tab = await opened.browser.newPage();
+      tabs.push(tab);
+      tab.setDefaultTimeout(PAGE_LOAD_TIMEOUT);
+      tab.setDefaultNavigationTimeout(NAVIGATION_TIMEOUT);
+      await options.resourceBlocker?.attach(tab);
+    }
+    opened.log.info(
+      `Fetching pages ${startPageNum + 2}-${lastPageNum + 1} in ${tabs.length} tab(s)`,
+    );
+
+    // A tab stops at its first failure; the others carry on with the
+    // pages it would have fetched.
+    let next = 0;
+    const settled = await Promise.allSettled(
+      tabs.map(async (tab) => {
+        while (next < remaining.length) {
+          const pageNum = remaining[next++];
+          const result = await extractCollectionPage(
+            tab,
+            collectionUrl,
+            pageNum,
+            opened.log,
+            pageOptions,
+          );
+          results.set(pageNum, result);
+        }
+      }),
+    );
+    failures = settled.filter(
+      (outcome): outcome is PromiseRejectedResult =>
+        outcome.status === "rejected",
+    );
+  } finally {
+    for (const tab of tabs.slice(1)) {
+      try {
+        await tab.close();
+      } catch (_) {
+        // Tab may already be gone if the session died.
+      }
+    }
+  }
+
+  const blocked = failures.find(
+    (failure) =>
+      failure.reason instanceof GoogleInterstitialError &&
+      failure.reason.botWall,
+  );
+  if (blocked) {
+    throw blocked.reason;
+  }
+  for (const failure of failures) {
+    const msg =
+      failure.reason instanceof Error
+        ? failure.reason.message
+        : String(failure.reason);
+    opened.log.warn(`Collection page failed: ${msg}`);
+  }
+
+  // Every page before the collection's last must be full, or the places
+  // after it wouldn't line up with their indexes.
+  const pages = [first];
+  for (let pageNum = startPageNum + 1; pageNum <= lastPageNum; pageNum++) {
+    const result = results.get(pageNum);
+    const complete =
+      result !== undefined &&
+      result.places.length > 0 &&
+      (result.places.length === ITEMS_PER_PAGE || pageNum === finalPageNum);
+    if (!complete) {
+      opened.log.warn(
+        `Returning pages ${startPageNum + 1}-${pageNum}: page ${pageNum + 1} ${result ? `had ${result.places.length} places` : "failed"}`,
+      );
+      break;
+    }
+    pages.push(result);
+  }
+  return pages;
+}
+
+/**
+ * Merge consecutive page results into one, keeping place order. pageInfo
+ * runs from the first page's startIndex to the last page's endIndex, and
+ * hasNextPage is the last page's, so a run cut short by a failed page
+ * tells the caller where to resume. A blob warning is kept once per field,
+ * quality stats are summed and each selector reports the furthest fallback
+ * any page needed.
+ */
+function mergeCollectionPages(
+  results: CollectionPageResult[],
+): CollectionPageResult {
+  const first = results[0];
+  const last = results[results.length - 1];
+  const warnings = new Map<string, BlobWarning>();
+  for (const result of results) {
+    for (const warning of result.warnings ?? []) {
+      if (!warnings.has(warning.field)) {
+        warnings.set(warning.field, warning);
+      }
+    }
+  }
+
+  return {
+    places: results.flatMap((result) => result.places),
+    pageInfo: {
+      startIndex: first.pageInfo.startIndex,
+      endIndex: last.pageInfo.endIndex,
+      totalCount: last.pageInfo.totalCount,
+      hasNextPage: last.pageInfo.hasNextPage,
+    },
+    ...(first.collectionMeta && { collectionMeta: first.collectionMeta }),
+    ...(warnings.size > 0 && { warnings: [...warnings.values()] }),
+    quality: mergeExtractionQuality(results.map((result) => result.quality)),
+    selectors: {
+      version: first.selectors.version,
+      matched: mergeSelectorMatches(
+        results.map((result) => result.selectors.matched),
+      ),
+    },
+    ...(first.debug && { debug: first.debug }),
+  };
+}
+
+/**
+ * Validate a /data-import request body.
+ * Returns a 400 response if invalid, or null if the request can proceed.
+ */
+function validateDataImportRequest(body: DataImportRequest): Response | null {
+  if (!body.url) {
+    return errorResponse("INVALID_REQUEST", "Missing required field: url");
+  }
+
+  // Validate URL to prevent SSRF attacks
+  const urlCheck = classifyGoogleMapsUrl(body.url);
+  if (!urlCheck.valid) {
+    return errorResponse(
+      "INVALID_URL",
+      `Invalid URL: must be a valid Google Maps collection or place URL (${urlCheck.reason})`,
+    );
+  }
+
+  if (body.mode !== undefined && body.mode !== "browser" && body.mode !== "fast") {
+    return errorResponse(
+      "INVALID_REQUEST",
+      "Invalid mode: must be one of browser, fast",
+    );
+  }
+
+  if (body.format !== undefined && !isExportFormat(body.format)) {
+    return errorResponse(
+      "INVALID_REQUEST",
+      "Invalid format: must be one of json, csv, geojson, kml, gpx",
+    );
+  }
+
+  if (body.locale !== undefined && !normaliseLocale(body.locale)) {
+    return errorResponse(
+      "INVALID_REQUEST",
+      'Invalid locale: must be a BCP 47 language tag such as "de" or "fr-FR"',
+    );
+  }
+
+  if (normaliseWaitSeconds(body.waitSeconds) === null) {
+    return errorResponse(
+      "INVALID_REQUEST",
+      `Invalid waitSeconds: must be a number between 0 and ${MAX_QUEUE_WAIT_SECONDS}`,
+    );
+  }
+
+  if (body.priority !== undefined && !isPoolPriority(body.priority)) {
+    return errorResponse(
+      "INVALID_REQUEST",
+      "Invalid priority: must be one of interactive, batch",
+    );
+  }
+
+  if (
+    body.pageCount !== undefined &&
+    !isIntegerInRange(body.pageCount, 1, MAX_PAGES_PER_REQUEST)
+  ) {
+    return errorResponse(
+      "INVALID_REQUEST",
+      `Invalid pageCount: must be an integer between 1 and ${MAX_PAGES_PER_REQUEST}`,
+    );
+  }
+
+  if (
+    body.concurrency !== undefined &&
+    !isIntegerInRange(body.concurrency, 1, MAX_PAGE_CONCURRENCY)
+  ) {
+    return errorResponse(
+      "INVALID_REQUEST",
+      `Invalid concurrency: must be an integer between 1 and ${MAX_PAGE_CONCURRENCY}`,
+    );
+  }
+
+  return null;
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+/**
+ * Resolve a maps.app.goo.gl request URL in place.
+ * Returns a 400 response if the short link doesn't lead to Google Maps, or
+ * null once body.url is a full Google Maps URL that is safe to load.
+ */
+async function resolveDataImportUrl(
+  body: DataImportRequest,
+  log: Logger,
+): Promise<Response | null> {
+  if (!isShortLink(body.url)) {
+    return null;
+  }
+
+  const resolution = await resolveShortLink(body.url, log.child("ShortLink"));
+  if (!resolution.ok) {
+    return errorResponse("INVALID_URL", `Invalid URL: ${resolution.error}`);
+  }
+
+  body.url = resolution.url;
+  return null;
+}
+
+/**
+ * Data import handler - extracts place URLs from a Google Maps collection.
+ * Handles pagination and returns batches of places.
+ *
+ * The success response is rendered as JSON, CSV, GeoJSON, KML or GPX based
+ * on the `format` field or Accept header (see export-formats.ts).
+ *
+ * When the request includes a callbackUrl, the import runs as a background
+ * job instead: the handler returns 202 with a job ID straight away and each
+ * page is delivered to the callback (see runImportJobStep).
+ */
+async function handleDataImport(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  apiKey: ApiKeyIdentity,
+  log: Logger,
+): Promise<Response> {
+  const startTime = Date.now();
+
+  try {
+    const body = (await request.json()) as DataImportRequest;
+
+    const invalid = validateDataImportRequest(body);
+    if (invalid) {
+      return invalid;
+    }
+
+    // Background jobs don't have a user waiting on them.
+    body.priority = poolPriorityFor(
+      body.priority,
+      apiKey,
+      body.callbackUrl ? "batch" : "interactive",
+    );
+
+    // Resolve share-sheet short links before anything loads them.
+    const requestedUrl = body.url;
+    const unresolved = await resolveDataImportUrl(body, log);
+    if (unresolved) {
+      return unresolved;
+    }
+
+    // Job mode: hand off to the background runner and return immediately.
+    if (body.callbackUrl) {
+      return await startImportJob(
+        body,
+        requestedUrl,
+        env,
+        log.child("ImportJob"),
+      );
+    }
+
+    const pageOffset = body.pageOffset || 0;
+    const pageNum = Math.floor(pageOffset / ITEMS_PER_PAGE);
+    const pageCount = body.pageCount ?? 1;
+    const locale = normaliseLocale(body.locale) ?? undefined;
+
+    // Fast path: try a plain fetch first and only use the browser pool if it fails.
+    if (body.mode === "fast" && !body.debug && pageCount === 1) {
+      const direct = await fetchCollectionPageDirect(
+        body.url,
+        pageNum,
+        log.child("FastPath"),
+        locale,
+      );
+      if (direct) {
+        const response: DataImportResponse = {
+          success: true,
+          collectionUrl: body.url,
+          ...(requestedUrl !== body.url && { requestedUrl }),
+          urlKind: googleMapsUrlKind(body.url),
+          sessionId: "",
+          places: direct.places,
+          pageInfo: direct.pageInfo,
+          ...(direct.collectionMeta && {
+            collectionMeta: direct.collectionMeta,
+          }),
+          ...(direct.warnings && { warnings: direct.warnings }),
+          source: "fetch",
+          durationSeconds: (Date.now() - startTime) / 1000,
+        };
+        return renderExport(
+          response,
+          negotiateExportFormat(body.format, request.headers.get("Accept")),
+        );
+      }
+      log.child("FastPath").info("Fast path failed, falling back to browser");
+    }
+
+    // Use session reuse if sessionId provided, otherwise start new session.
+    const opened = await openImportBrowser(
+      env,
+      body.sessionId,
+      body.url,
+      log,
+      { waitSeconds: body.waitSeconds, priority: body.priority },
+    );
+    if (!opened.ok) {
+      return poolFullResponse(opened);
+    }
+
+    const { sessionId } = opened;
+    const resourceBlocker = new ResourceBlocker(
+      resourceBlockingPolicy("data-import", env),
+    );
+    let page: any;
+    let warm = false;
+
+    // Opening the tab can fail on a dead session, so it happens inside the
+    // try that stops the heartbeat and releases the lease.
+    try {
+      ({ page, warm } = await openCollectionTab(opened, body.url));
+      opened.log.info(
+        `Page ${warm ? "reused" : "created"}. Session will remain active for ~10 minutes.`,
+      );
+
+      // Default timeout for all page operations (goto, click, evaluate, etc)
+      page.setDefaultTimeout(PAGE_LOAD_TIMEOUT);
+      page.setDefaultNavigationTimeout(NAVIGATION_TIMEOUT);
+
+      await resourceBlocker.attach(page);
+      const pageOptions = {
+        selectors: await activeSelectors(env.BROWSER_SESSIONS, opened.log),
+        debug: body.debug,
+        locale,
+        warm,
+        resourceBlocker,
+      };
+      const pages =
+        pageCount > 1
+          ? await extractCollectionPages(
+              opened,
+              page,
+              body.url,
+              pageNum,
+              pageCount,
+              body.concurrency ?? DEFAULT_PAGE_CONCURRENCY,
+              pageOptions,
+            )
+          : [
+              await extractCollectionPage(
+                page,
+                body.url,
+                pageNum,
+                opened.log,
+                pageOptions,
+              ),
+            ];
+      const result = mergeCollectionPages(pages);
+      ctx.waitUntil(
+        recordExtractionQuality(
+          env.BROWSER_SESSIONS,
+          result.quality,
+          driftThreshold(env),
+          opened.log.child("ExtractionQuality"),
+        ),
+      );
+      if (
+        result.places.length === 0 &&
+        result.pageInfo.totalCount >= result.pageInfo.startIndex
+      ) {
+        // The collection has places here, so the page didn't render them.
+        throw new ApiError(
+          "EXTRACTION_EMPTY",
+          `No places found on page ${pageNum + 1}, but the collection has ${result.pageInfo.totalCount}`,
+          { fields: { quality: result.quality } },
+        );
+      }
+      const blocking = body.debug ? await resourceBlocker.stats() : undefined;
+
+      // Keep the tab for the next page and don't close the browser, so the
+      // session (with this collection loaded) can be reused.
+      await resourceBlocker.detach(page);
+      await keepCollectionTab(opened, page);
+
+      // Release session back to pool so other requests can use it.
+      await releaseImportBrowser(env, opened);
+
+      const duration = (Date.now() - startTime) / 1000;
+
+      const response: DataImportResponse = {
+        success: true,
+        collectionUrl: body.url,
+        ...(requestedUrl !== body.url && { requestedUrl }),
+        urlKind: googleMapsUrlKind(body.url),
+        sessionId, // Send back session ID for reuse
+        places: result.places,
+        pageInfo: result.pageInfo,
+        ...(pages.length > 1 && { pages: pages.map((p) => p.pageInfo) }),
+        ...(result.collectionMeta && { collectionMeta: result.collectionMeta }),
+        ...(result.warnings && { warnings: result.warnings }),
+        quality: result.quality,
+        selectors: result.selectors,
+        source: "browser",
+        ...(opened.queue && { queue: opened.queue }),
+        ...(opened.acquire && { acquire: opened.acquire }),
+        ...(warm && { warmTab: true }),
+        durationSeconds: duration,
+        ...(result.debug && { debug: result.debug }),
+        ...(blocking && { resourceBlocking: blocking }),
+      };
+
+      return renderExport(
+        response,
+        negotiateExportFormat(body.format, request.headers.get("Accept")),
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      opened.log.error(`Error during extraction: ${errorMessage}`);
+
+      if (page) {
+        try {
+          await page.close();
+        } catch (_) {
+          // Page may already be gone if the session died.
+        }
+      }
+      // Don't close browser — session should remain available for retry,
+      // unless Google has started blocking it.
+      if (error instanceof GoogleInterstitialError && opened.usingPool) {
+        await flagBlockedSession(
+          env,
+          sessionId,
+          opened.browser,
+          error,
+          opened.log,
+        );
+      }
+
+      // Release session back to pool even on error.
+      await releaseImportBrowser(env, opened);
+
+      const duration = (Date.now() - startTime) / 1000;
+
+      return errorResponse(
+        classifyError(error, `Extraction failed: ${errorMessage}`),
+        undefined,
+        {
+          fields: {
+            collectionUrl: body.url,
+            sessionId,
+            places: [],
+            pageInfo: {
+              startIndex: pageNum * ITEMS_PER_PAGE + 1,
+              endIndex: pageNum * ITEMS_PER_PAGE,
+              totalCount: 0,
+              hasNextPage: false,
+            },
+            durationSeconds: duration,
+          },
+        },
+      );
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    log.error("Data import error", { error: errorMessage });
+
+    const apiError = classifyError(
+      error,
+      "Failed to process data import request",
+    );
+    if (apiError.code === "UPSTREAM_RATE_LIMITED") {
+      log.error(
+        "CLOUDFLARE BROWSER RENDERING RATE LIMITED - Check browserli logs for details",
+      );
+    }
+    return errorResponse(apiError);
+  }
+}
+
+/**
+ * Validate the callback URL, create a job record and queue its first page.
+ * Returns 202 with the job ID so the caller isn't held open.
+ */
+async function startImportJob(
+  body: DataImportRequest,
+  requestedUrl: string,
+  env: Env,
+  log: Logger,
+): Promise<Response> {
+  if (!isValidCallbackUrl(body.callbackUrl!, env.CALLBACK_ALLOWED_HOSTS)) {
+    return errorResponse(
+      "INVALID_REQUEST",
+      "Invalid callbackUrl: must be an https URL on an allowed host",
+    );
+  }
+
+  if (!env.WEBHOOK_SECRET || !env.IMPORT_JOBS) {
+    const missing = env.WEBHOOK_SECRET ? "IMPORT_JOBS queue" : "WEBHOOK_SECRET";
+    log.error(`${missing} is not configured`);
+    return errorResponse(
+      "NOT_CONFIGURED",
+      "Job mode is not configured on this server",
+    );
+  }
+
+  const job = await createImportJob(
+    env.BROWSER_SESSIONS,
+    {
+      collectionUrl: body.url,
+      callbackUrl: body.callbackUrl!,
+      pageOffset: body.pageOffset || 0,
+      sessionId: body.sessionId,
+    },
+    log,
+  );
+
+  const step: ImportJobStep = {
+    job,
+    pageNum: Math.floor(job.pageOffset / ITEMS_PER_PAGE),
+    options: {
+      waitSeconds: body.waitSeconds,
+      priority: body.priority,
+      debug: body.debug,
+      locale: body.locale,
+    },
+    requestId: log.context.requestId,
+  };
+  await env.IMPORT_JOBS.send(step);
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      jobId: job.jobId,
+      status: job.status,
+      collectionUrl: job.collectionUrl,
+      ...(requestedUrl !== job.collectionUrl && { requestedUrl }),
+    }),
+    { status: 202, headers: { "Content-Type": "application/json" } },
+  );
+}
+
+/**
+ * Run one step of a background import job: extract one collection page,
+ * deliver it to the job's callback URL as a DataImportResponse and queue
+ * the next page, or finish with a completion event after the last one.
+ * Progress is persisted in KV after every page so GET /jobs/<id> can
+ * report it.
+ *
+ * Errors the taxonomy marks retryable (pool full, timeouts, dead sessions)
+ * are retried by the queue up to JOB_STEP_MAX_ATTEMPTS times. Anything
+ * else, or running out of attempts, fails the job with a failure event.
+ */
+async function runImportJobStep(
+  message: Message<ImportJobStep>,
+  env: Env,
+  log: Logger,
+): Promise<void> {
+  const { job, pageNum, options } = message.body;
+  const secret = env.WEBHOOK_SECRET!;
+
+  // The sweep may have given up on the job while this step was queued.
+  const stored = await getImportJob(env.BROWSER_SESSIONS, job.jobId);
+  if (!stored || stored.status === "failed" || stored.status === "completed") {
+    log.warn(
+      `Skipping page ${pageNum + 1}: job is ${stored?.status ?? "gone"}`,
+    );
+    message.ack();
+    return;
+  }
+
+  let opened: ImportBrowser | null = null;
+  let page: any;
+
+  try {
+    const result = await openImportBrowser(
+      env,
+      job.sessionId,
+      job.collectionUrl,
+      log,
+      { waitSeconds: options.waitSeconds, priority: options.priority },
+    );
+    if (!result.ok) {
+      throw new ApiError("POOL_FULL", poolUnavailableMessage(result));
+    }
+    opened = result;
+
+    await updateImportJob(env.BROWSER_SESSIONS, job, {
+      status: "running",
+      sessionId: opened.sessionId,
+    });
+
+    const tab = await openCollectionTab(opened, job.collectionUrl);
+    page = tab.page;
+    page.setDefaultTimeout(PAGE_LOAD_TIMEOUT);
+    page.setDefaultNavigationTimeout(NAVIGATION_TIMEOUT);
+    const resourceBlocker = new ResourceBlocker(
+      resourceBlockingPolicy("data-import", env),
+    );
+    await resourceBlocker.attach(page);
+
+    const pageStart = Date.now();
+    const extracted = await extractCollectionPage(
+      page,
+      job.collectionUrl,
+      pageNum,
+      opened.log,
+      {
+        selectors: await activeSelectors(env.BROWSER_SESSIONS, opened.log),
+        debug: options.debug,
+        locale: normaliseLocale(options.locale) ?? undefined,
+        warm: tab.warm,
+      },
+    );
+    await recordExtractionQuality(
+      env.BROWSER_SESSIONS,
+      extracted.quality,
+      driftThreshold(env),
+      opened.log.child("ExtractionQuality"),
+    );
+
+    const emptyError = emptyPageError(
+      extracted,
+      pageNum,
+      job.pagesDelivered === 0,
+    );
+    if (emptyError) {
+      throw emptyError;
+    }
+    const { endIndex, totalCount } = extracted.pageInfo;
+
+    const payload: DataImportResponse = {
+      success: true,
+      collectionUrl: job.collectionUrl,
+      sessionId: opened.sessionId,
+      places: extracted.places,
+      pageInfo: extracted.pageInfo,
+      ...(extracted.collectionMeta && {
+        collectionMeta: extracted.collectionMeta,
+      }),
+      ...(extracted.warnings && { warnings: extracted.warnings }),
+      quality: extracted.quality,
+      selectors: extracted.selectors,
+      durationSeconds: (Date.now() - pageStart) / 1000,
+      ...(extracted.debug && { debug: extracted.debug }),
+    };
+
+    // No point walking further pages if the callback won't accept them.
+    if (!(await deliverWebhook(job, "page", payload, secret, log))) {
+      throw new Error(
+        `Callback delivery failed for page ${pageNum + 1}; aborting job`,
+      );
+    }
+
+    // Keep the tab for the next step, which asks for the same session.
+    await resourceBlocker.detach(page);
+    await keepCollectionTab(opened, page);
+    page = undefined;
+    await releaseImportBrowser(env, opened);
+    opened = null;
+
+    const done = extracted.places.length === 0 || endIndex >= totalCount;
+    await updateImportJob(env.BROWSER_SESSIONS, job, {
+      pagesDelivered: job.pagesDelivered + 1,
+      placesDelivered: job.placesDelivered + extracted.places.length,
+      totalCount,
+      ...(extracted.collectionMeta && {
+        collectionMeta: extracted.collectionMeta,
+      }),
+      ...(done && { status: "completed" as const }),
+    });
+
+    if (!done) {
+      await env.IMPORT_JOBS!.send({
+        ...message.body,
+        job,
+        pageNum: pageNum + 1,
+      });
+    } else {
+      await deliverWebhook(
+        job,
+        "completed",
+        {
+          success: true,
+          collectionUrl: job.collectionUrl,
+          sessionId: job.sessionId,
+          pagesDelivered: job.pagesDelivered,
+          placesDelivered: job.placesDelivered,
+          totalCount: job.totalCount,
+          ...(job.collectionMeta && { collectionMeta: job.collectionMeta }),
+          durationSeconds: (Date.now() - Date.parse(job.createdAt)) / 1000,
+        },
+        secret,
+        log,
+      );
+    }
+    message.ack();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const apiError = classifyError(error, errorMessage);
+
+    if (page) {
+      try {
+        await page.close();
+      } catch (_) {
+        // Page may already be gone if the session died.
+      }
+    }
+    if (error instanceof GoogleInterstitialError && opened?.usingPool) {
+      await flagBlockedSession(
+        env,
+        opened.sessionId,
+        opened.browser,
+        error,
+        opened.log,
+      );
+    }
+    if (opened) {
+      await releaseImportBrowser(env, opened);
+    }
 
-      console.log(
-        `[DataImport] Connecting to local Playwright server: ${playwrightServerUrl}`,
+    if (apiError.retryable && message.attempts < JOB_STEP_MAX_ATTEMPTS) {
+      log.warn(
+        `Page ${pageNum + 1} failed (attempt ${message.attempts}/${JOB_STEP_MAX_ATTEMPTS}), retrying: ${errorMessage}`,
       );
+      // Touch the job so the stale sweep sees it is still being worked on.
+      await updateImportJob(env.BROWSER_SESSIONS, job, {});
+      message.retry({ delaySeconds: apiError.retryAfterSeconds });
+      return;
+    }
 
-      try {
-        // Create a simple HTTP-based browser proxy that uses fetch
-        // This works in Worker environments without any Node.js dependencies
-        // For local Playwright, generate a sessionId upfront
-        sessionId = `local-${Date.now()}`;
-
-        browser = {
-          _playwrightServerUrl: playwrightServerUrl,
-          _sessionId: sessionId,
-          async newPage() {
-            // Delegate to the HTTP API on the local server
-            return {
-              _serverUrl: playwrightServerUrl,
-              _sessionId: sessionId,
-              async goto(url: string, options: any) {
-                const response = await fetch(
-                  `${playwrightServerUrl}/api/page/goto`,
-                  {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ url, options, sessionId }),
-                  },
-                );
-                if (!response.ok) {
-                  throw new Error(`Failed to navigate to ${url}`);
-                }
-                const data = await response.json();
-                return data;
-              },
-              async evaluate(fn: Function) {
-                const response = await fetch(
-                  `${playwrightServerUrl}/api/page/evaluate`,
-                  {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ script: fn.toString(), sessionId }),
-                  },
-                );
-                if (!response.ok) {
-                  const error = await response.json();
-                  throw new Error(`Failed to evaluate script: ${error.error}`);
-                }
-                const data = await response.json();
-                return data.result;
-              },
-              async waitForTimeout(ms: number) {
-                return new Promise((resolve) => setTimeout(resolve, ms));
-              },
-              async close() {
-                // Close page via HTTP
-                await fetch(`${playwrightServerUrl}/api/page/close`, {
-                  method: "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({ sessionId }),
-                });
-              },
-              async setDefaultTimeout() {},
-              async setDefaultNavigationTimeout() {},
-            };
-          },
-          async close() {
-            // Close browser
-          },
-        };
-        console.log(
-          `[DataImport] Connected to local Playwright server (HTTP proxy: ${sessionId})`,
-        );
-      } catch (error) {
-        const msg = error instanceof Error ? error.message : String(error);
-        console.error(
-          `[DataImport] Failed to connect to local Playwright: ${msg}`,
-        );
-        throw new Error(
-          `Cannot connect to local Playwright server at ${playwrightServerUrl}. ` +
-            `Make sure it's running: npm run playwright:server`,
-        );
-      }
-    } else {
-      // Production: use Cloudflare Browser Rendering API with session pool.
-      const poolResult = await acquirePooledSession(
-        env.BROWSER_SESSIONS,
-        env.BROWSER,
-        body.sessionId,
-        body.url,
-      );
+    log.error(`Job ${job.jobId} failed: ${errorMessage}`);
+    await failImportJob(env.BROWSER_SESSIONS, job, apiError, secret, log);
+    message.ack();
+  }
+}
 
-      if (!poolResult) {
-        // All browser sessions are currently in use.
-        return new Response(
-          JSON.stringify({
-            success: false,
-            error:
-              "All browser sessions are currently busy. Please retry shortly.",
-            poolFull: true,
-          }),
-          {
-            status: 503,
-            headers: {
-              "Content-Type": "application/json",
-              "Retry-After": "30",
-            },
-          },
-        );
-      }
+/**
+ * Job status handler - GET /jobs/<jobId>.
+ */
+async function handleJobStatus(jobId: string, env: Env): Promise<Response> {
+  const job = await getImportJob(env.BROWSER_SESSIONS, jobId);
 
-      sessionId = poolResult.sessionId;
-      usingPool = true;
+  if (!job) {
+    return errorResponse("NOT_FOUND", "Job not found");
+  }
 
-      try {
-        browser = await connect(env.BROWSER, sessionId);
-        console.log(
-          `[DataImport] Connected to session ${sessionId} (reused: ${poolResult.reused})`,
-        );
-      } catch (connectError) {
-        const msg =
-          connectError instanceof Error
-            ? connectError.message
-            : String(connectError);
-        console.error(
-          `[DataImport] Failed to connect to session ${sessionId}: ${msg}`,
-        );
+  // Never echo the callback URL back — it may embed credentials.
+  const { callbackUrl: _callbackUrl, ...status } = job;
+  return new Response(JSON.stringify({ success: true, ...status }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
 
-        // Session is dead in CF but still tracked in KV — clean it up.
-        await removePooledSession(env.BROWSER_SESSIONS, sessionId);
+/**
+ * Streaming data import handler - walks every page of a collection and emits
+ * each PlaceCard as soon as its page has been extracted.
+ *
+ * Responds with NDJSON by default, or Server-Sent Events when the client
+ * sends "Accept: text/event-stream". Events, in order:
+ *   - place   → { index, place } for every extracted place
+ *   - page    → { pageInfo } after each page's places
+ *   - summary → totals plus collectionMeta once the walk finishes
+ *   - error   → emitted instead of summary if the walk fails, including
+ *               an empty first page (EXTRACTION_EMPTY)
+ */
+async function handleDataImportStream(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  apiKey: ApiKeyIdentity,
+  log: Logger,
+): Promise<Response> {
+  const startTime = Date.now();
 
-        // Retry once with a fresh session.
-        console.log(`[DataImport] Retrying with a fresh session`);
-        const retryResult = await acquirePooledSession(
-          env.BROWSER_SESSIONS,
-          env.BROWSER,
-          undefined,
-          body.url,
-        );
+  let body: DataImportRequest;
+  try {
+    body = (await request.json()) as DataImportRequest;
+  } catch {
+    return errorResponse("INVALID_REQUEST", "Invalid JSON body");
+  }
 
-        if (!retryResult) {
-          return new Response(
-            JSON.stringify({
-              success: false,
-              error:
-                "All browser sessions are currently busy. Please retry shortly.",
-              poolFull: true,
-            }),
-            {
-              status: 503,
-              headers: {
-                "Content-Type": "application/json",
-                "Retry-After": "30",
-              },
-            },
-          );
-        }
+  const invalid = validateDataImportRequest(body);
+  if (invalid) {
+    return invalid;
+  }
+  body.priority = poolPriorityFor(body.priority, apiKey, "interactive");
 
-        sessionId = retryResult.sessionId;
-        browser = await connect(env.BROWSER, sessionId);
-        console.log(`[DataImport] Connected to retry session ${sessionId}`);
-      }
-    }
+  const requestedUrl = body.url;
+  const unresolved = await resolveDataImportUrl(body, log);
+  if (unresolved) {
+    return unresolved;
+  }
 
-    const page = await browser.newPage();
-    console.log(
-      `[DataImport] Page created. Session will remain active for ~10 minutes.`,
-    );
+  const useSse = (request.headers.get("Accept") || "").includes(
+    "text/event-stream",
+  );
+
+  // Acquire the browser before committing to a 200 so pool-full still maps to 503.
+  const opened = await openImportBrowser(
+    env,
+    body.sessionId,
+    body.url,
+    log,
+    { waitSeconds: body.waitSeconds, priority: body.priority },
+  );
+  if (!opened.ok) {
+    return poolFullResponse(opened);
+  }
 
-    // Set default timeout for all page operations (goto, click, evaluate, etc)
-    page.setDefaultTimeout(PAGE_LOAD_TIMEOUT);
-    page.setDefaultNavigationTimeout(NAVIGATION_TIMEOUT);
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
 
-    const pageOffset = body.pageOffset || 0;
-    let pageNum = Math.floor(pageOffset / ITEMS_PER_PAGE);
-    let totalCount = 0;
-    let allPlaces: PlaceCard[] = [];
+  const emit = async (event: string, data: object): Promise<void> => {
+    const line = useSse
+      ? `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+      : `${JSON.stringify({ type: event, ...data })}\n`;
+    await writer.write(encoder.encode(line));
+  };
+
+  const pump = async (): Promise<void> => {
+    let page: any;
+    let placesEmitted = 0;
+    let pagesEmitted = 0;
 
     try {
-      // Navigate directly to the correct page using the pageNumber query param.
-      // Google Collections supports ?pageNumber=N (1-indexed) for stable pagination —
-      // this is simpler and more reliable than click-based navigation, and also
-      // triggers a fresh AF_initDataCallback blob for each page's places.
-      const targetUrl =
-        pageNum > 0 ? addPageNumberToUrl(body.url, pageNum) : body.url;
-      console.log(
-        `[DataImport] Loading collection page ${pageNum + 1}: ${targetUrl}`,
+      const tab = await openCollectionTab(opened, body.url);
+      page = tab.page;
+      page.setDefaultTimeout(PAGE_LOAD_TIMEOUT);
+      page.setDefaultNavigationTimeout(NAVIGATION_TIMEOUT);
+      const resourceBlocker = new ResourceBlocker(
+        resourceBlockingPolicy("data-import", env),
       );
-      await page.goto(targetUrl, {
-        waitUntil: "domcontentloaded",
-        timeout: PAGE_LOAD_TIMEOUT,
-      });
+      await resourceBlocker.attach(page);
 
-      // Extract per-place data and collection metadata from the embedded blob.
-      const blobData = await extractCollectionBlobData(page);
-
-      // Extract place cards from the current page DOM.
-      console.log(`[DataImport] Extracting places from page ${pageNum + 1}...`);
-      const places = await extractPlaceCardsFromPage(page);
-
-      // Merge blob data (savedAt, kgId, photoUrl) into place cards by matching normalised URLs.
-      if (blobData.places.size > 0) {
-        let matched = 0;
-        for (const place of places) {
-          const normalised = normaliseGoogleMapsUrl(place.url);
-          const data = blobData.places.get(normalised);
-          if (data) {
-            if (data.savedAt) place.savedAt = data.savedAt;
-            if (data.kgId) place.kgId = data.kgId;
-            if (data.photoUrl) place.photoUrl = data.photoUrl;
-            matched++;
-          }
+      let collectionMeta: CollectionMeta | undefined;
+      let totalCount = 0;
+
+      for await (const result of walkCollectionPages(
+        page,
+        body.url,
+        Math.floor((body.pageOffset || 0) / ITEMS_PER_PAGE),
+        opened.log,
+        {
+          selectors: await activeSelectors(env.BROWSER_SESSIONS, opened.log),
+          locale: normaliseLocale(body.locale) ?? undefined,
+          warm: tab.warm,
+        },
+      )) {
+        // Same rule as job mode: an empty first page is a failed walk.
+        const emptyError = emptyPageError(
+          result,
+          result.pageNum,
+          pagesEmitted === 0,
+        );
+        if (emptyError) {
+          throw emptyError;
+        }
+        collectionMeta = result.collectionMeta ?? collectionMeta;
+        totalCount = result.pageInfo.totalCount;
+
+        for (const [i, place] of result.places.entries()) {
+          await emit("place", { index: result.pageInfo.startIndex + i, place });
         }
-        console.log(
-          `[DataImport] Matched ${matched}/${places.length} places with blob data`,
+        placesEmitted += result.places.length;
+        pagesEmitted++;
+
+        await emit("page", {
+          pageInfo: result.pageInfo,
+          quality: result.quality,
+          selectors: result.selectors,
+        });
+        ctx.waitUntil(
+          recordExtractionQuality(
+            env.BROWSER_SESSIONS,
+            result.quality,
+            driftThreshold(env),
+            opened.log.child("ExtractionQuality"),
+          ),
         );
       }
 
-      if (places.length === 0) {
-        console.log("[DataImport] No places found on current page");
-      } else {
-        console.log(
-          `[DataImport] Found ${places.length} places on page ${pageNum + 1}`,
+      // Keep the tab for a follow-up request on the same collection.
+      await resourceBlocker.detach(page);
+      await keepCollectionTab(opened, page);
+      page = undefined;
+
+      await emit("summary", {
+        success: true,
+        collectionUrl: body.url,
+        ...(requestedUrl !== body.url && { requestedUrl }),
+        sessionId: opened.sessionId,
+        placesEmitted,
+        pagesEmitted,
+        totalCount,
+        ...(collectionMeta && { collectionMeta }),
+        ...(opened.queue && { queue: opened.queue }),
+        ...(opened.acquire && { acquire: opened.acquire }),
+        durationSeconds: (Date.now() - startTime) / 1000,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      opened.log.error(`Error during walk: ${errorMessage}`);
+
+      if (error instanceof GoogleInterstitialError && opened.usingPool) {
+        await flagBlockedSession(
+          env,
+          opened.sessionId,
+          opened.browser,
+          error,
+          opened.log,
         );
-        allPlaces.push(...places);
       }
 
-      // Get pagination info — use blob totalCount as primary source (more reliable than DOM).
-      const { total: domTotal, hasNext } = await getPaginationInfo(page);
-      totalCount = blobData.totalCount ?? domTotal;
+      try {
+        await emit(
+          "error",
+          errorBody(classifyError(error, errorMessage), {
+            collectionUrl: body.url,
+            sessionId: opened.sessionId,
+            placesEmitted,
+            pagesEmitted,
+            durationSeconds: (Date.now() - startTime) / 1000,
+          }),
+        );
+      } catch (_) {
+        // Client has gone away; nothing left to tell it.
+      }
+    } finally {
+      if (page) {
+        try {
+          await page.close();
+        } catch (_) {
+          // Page may already be gone if the session died.
+        }
+      }
+      await releaseImportBrowser(env, opened);
+      try {
+        await writer.close();
+      } catch (_) {
+        // Stream already errored because the client disconnected.
+      }
+    }
+  };
 
-      console.log(
-        `[DataImport] Pagination info: total=${totalCount}, hasNext=${hasNext}, itemsExtracted=${places.length}`,
-      );
+  ctx.waitUntil(pump());
 
-      // Capture debug info if requested
-      let debugInfo: { htmlContent: string; domStructure: string } | undefined;
-      if (body.debug) {
-        console.log("[DataImport] Capturing debug information...");
-        debugInfo = await captureDebugInfo(page);
-      }
+  return new Response(readable, {
+    status: 200,
+    headers: {
+      "Content-Type": useSse
+        ? "text/event-stream; charset=utf-8"
+        : "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
 
-      await page.close();
-      // Don't close browser — just disconnect so session can be reused.
+/**
+ * Turn the raw labels collected by the place-details page script into the
+ * public response shape, parsing rating, review count and business status
+ * for the page's locale.
+ */
+function finalisePlaceDetails(
+  raw: {
+    ratingLabels?: string[];
+    reviewLabels?: string[];
+    statusText?: string | null;
+    [key: string]: unknown;
+  },
+  locale: string,
+): Record<string, unknown> {
+  const { ratingLabels, reviewLabels, statusText, ...details } = raw;
+  return {
+    ...details,
+    rating: parseRatingLabel(ratingLabels || []) ?? null,
+    review_count: parseReviewCountLabel(reviewLabels || [], locale) ?? null,
+    status: parseBusinessStatus(statusText),
+  };
+}
 
-      // Release session back to pool so other requests can use it.
-      if (usingPool) {
-        await releasePooledSession(env.BROWSER_SESSIONS, sessionId);
-      }
+function invalidLocaleResponse(corsHeaders: Record<string, string>): Response {
+  return errorResponse(
+    "INVALID_REQUEST",
+    'Invalid locale: must be a BCP 47 language tag such as "de" or "fr-FR"',
+    { headers: corsHeaders },
+  );
+}
 
-      const duration = (Date.now() - startTime) / 1000;
-      const startIndex = pageNum * ITEMS_PER_PAGE + 1;
-      const endIndex = startIndex + allPlaces.length - 1;
+function invalidWaitSecondsResponse(
+  corsHeaders: Record<string, string>,
+): Response {
+  return errorResponse(
+    "INVALID_REQUEST",
+    `Invalid waitSeconds: must be a number between 0 and ${MAX_QUEUE_WAIT_SECONDS}`,
+    { headers: corsHeaders },
+  );
+}
 
-      const response: DataImportResponse = {
-        success: true,
-        collectionUrl: body.url,
-        sessionId, // Send back session ID for reuse
-        places: allPlaces,
-        pageInfo: {
-          startIndex,
-          endIndex,
-          totalCount,
-          hasNextPage: hasNext && endIndex < totalCount,
-        },
-        ...(blobData.collectionId || blobData.collectionName || blobData.totalCount != null
-          ? {
-              collectionMeta: {
-                collectionId: blobData.collectionId,
-                collectionName: blobData.collectionName,
-                totalCount: blobData.totalCount,
-              },
-            }
-          : {}),
-        durationSeconds: duration,
-        ...(debugInfo && { debug: debugInfo }),
-      };
+function invalidPriorityResponse(
+  corsHeaders: Record<string, string>,
+): Response {
+  return errorResponse(
+    "INVALID_REQUEST",
+    "Invalid priority: must be one of interactive, batch",
+    { headers: corsHeaders },
+  );
+}
 
-      return new Response(JSON.stringify(response), {
-        status: 200,
-        headers: { "Content-Type": "application/json" },
-      });
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      console.error(`[DataImport] Error during extraction: ${errorMessage}`);
+/**
+ * Response returned by /api/place-details when no browser session is free.
+ * Detail lookups are short, so clients are told to retry sooner.
+ */
+function placeDetailsPoolFullResponse(
+  unavailable: PoolUnavailable,
+  corsHeaders: Record<string, string>,
+): Response {
+  return poolFullResponse(unavailable, {
+    retryAfterSeconds: 10,
+    headers: corsHeaders,
+  });
+}
 
-      await page.close();
-      // Don't close browser — session should remain available for retry.
+/**
+ * Manage API key records:
+ * - GET /admin/keys — list keys with current usage
+ * - POST /admin/keys — create a key; the plaintext is only returned here
+ * - PATCH /admin/keys/<keyId> — change name, scopes, quotas, expiry, disabled
+ * - DELETE /admin/keys/<keyId> — remove a key
+ */
+async function handleAdminKeys(
+  request: Request,
+  env: Env,
+  keyId: string | null,
+): Promise<Response> {
+  const json = (data: object, status = 200): Response =>
+    new Response(JSON.stringify(data), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
 
-      // Release session back to pool even on error.
-      if (usingPool) {
-        await releasePooledSession(env.BROWSER_SESSIONS, sessionId);
-      }
+  if (!keyId && request.method === "GET") {
+    const records = await listApiKeys(env.BROWSER_SESSIONS);
+    const keys = await Promise.all(
+      records.map(async (record) => ({
+        ...record,
+        usage: await getKeyUsage(env.BROWSER_SESSIONS, record.keyId),
+      })),
+    );
+    return json({ success: true, keys });
+  }
 
-      const duration = (Date.now() - startTime) / 1000;
+  if (keyId && request.method === "DELETE") {
+    const deleted = await deleteApiKey(env.BROWSER_SESSIONS, keyId);
+    return deleted
+      ? json({ success: true, keyId })
+      : errorResponse("NOT_FOUND", "Key not found");
+  }
 
-      return new Response(
-        JSON.stringify({
-          success: false,
-          collectionUrl: body.url,
-          sessionId,
-          places: allPlaces,
-          pageInfo: {
-            startIndex: pageNum * ITEMS_PER_PAGE + 1,
-            endIndex: pageNum * ITEMS_PER_PAGE + allPlaces.length,
-            totalCount,
-            hasNextPage: false,
-          },
-          durationSeconds: duration,
-          error: errorMessage,
-        }),
-        { status: 400, headers: { "Content-Type": "application/json" } },
-      );
-    }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error("[Worker] Data import error:", errorMessage);
-
-    const isRateLimit =
-      errorMessage.includes("429") ||
-      errorMessage.includes("Rate limit") ||
-      errorMessage.includes("rate limited");
-    const statusCode = isRateLimit ? 429 : 500;
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
+  const isCreate = !keyId && request.method === "POST";
+  const isUpdate = !!keyId && request.method === "PATCH";
+  if (!isCreate && !isUpdate) {
+    return errorResponse("METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = (await request.json()) as Record<string, unknown>;
+  } catch {
+    return errorResponse("INVALID_REQUEST", "Invalid JSON body");
+  }
+
+  const invalid = validateApiKeyFields(body, isCreate);
+  if (invalid) {
+    return errorResponse("INVALID_REQUEST", `Invalid key: ${invalid}`);
+  }
+
+  const { name, scopes, quotas, expiresAt, disabled } = body;
+
+  if (isCreate) {
+    const { key, record } = await createApiKey(env.BROWSER_SESSIONS, {
+      name: (name as string).trim(),
+      scopes: scopes as ApiKeyScope[],
+      quotas: quotas as ApiKeyQuotas | undefined,
+      expiresAt: expiresAt as string | undefined,
+    });
+    return json({ success: true, key, record }, 201);
+  }
+
+  const record = await updateApiKey(env.BROWSER_SESSIONS, keyId!, {
+    ...(name !== undefined && { name: (name as string).trim() }),
+    ...(scopes !== undefined && { scopes: scopes as ApiKeyScope[] }),
+    ...(quotas !== undefined && { quotas: quotas as ApiKeyQuotas }),
+    ...(expiresAt !== undefined && { expiresAt: expiresAt as string }),
+    ...(disabled !== undefined && { disabled: disabled as boolean }),
+  });
+  return record
+    ? json({ success: true, record })
+    : errorResponse("NOT_FOUND", "Key not found");
+}
+
+/**
+ * Selector registry handler (admin scope, see selectors.ts):
+ * - GET /admin/selectors — the active version, stored versions and defaults
+ * - POST /admin/selectors — publish and activate a new version; the body's
+ *   `selectors` only needs the fields that change, plus an optional `note`
+ * - POST /admin/selectors/rollback — re-activate `version`, or the one
+ *   before the active version
+ */
+async function handleAdminSelectors(
+  request: Request,
+  env: Env,
+  action: string | null,
+  apiKey: ApiKeyIdentity,
+  log: Logger,
+): Promise<Response> {
+  const json = (data: object, status = 200): Response =>
+    new Response(JSON.stringify(data), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  if (!action && request.method === "GET") {
+    const [active, versions] = await Promise.all([
+      activeSelectors(env.BROWSER_SESSIONS, log),
+      listSelectorVersions(env.BROWSER_SESSIONS),
+    ]);
+    return json({
+      success: true,
+      active,
+      versions,
+      defaults: DEFAULT_SELECTORS,
+    });
+  }
+
+  if (request.method !== "POST" || (action && action !== "rollback")) {
+    return errorResponse("METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = (await request.json()) as Record<string, unknown>;
+  } catch {
+    return errorResponse("INVALID_REQUEST", "Invalid JSON body");
+  }
 
-    if (isRateLimit) {
-      headers["Retry-After"] = "120"; // Suggest 2 minute retry
-      console.error(
-        "[Worker] CLOUDFLARE BROWSER RENDERING RATE LIMITED - Check browserli logs for details",
+  if (action === "rollback") {
+    const { version } = body;
+    if (
+      version !== undefined &&
+      (typeof version !== "number" || !Number.isInteger(version) || version < 0)
+    ) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "version must be a non-negative integer",
       );
     }
-
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: isRateLimit
-          ? "Rate limit exceeded. Please retry after 2 minutes."
-          : "Failed to process data import request",
-        isRateLimit,
-      }),
-      { status: statusCode, headers },
+    const record = await rollbackSelectors(
+      env.BROWSER_SESSIONS,
+      version as number | undefined,
+      log,
     );
+    return record
+      ? json({ success: true, record })
+      : errorResponse("NOT_FOUND", `Selector version ${version} not found`);
+  }
+
+  const invalid = validateSelectorChanges(body.selectors);
+  if (invalid) {
+    return errorResponse("INVALID_REQUEST", `Invalid selectors: ${invalid}`);
+  }
+  if (body.note !== undefined && typeof body.note !== "string") {
+    return errorResponse("INVALID_REQUEST", "note must be a string");
   }
+
+  const record = await publishSelectors(
+    env.BROWSER_SESSIONS,
+    body.selectors as Partial<SelectorChains>,
+    { createdBy: apiKey.name, note: body.note as string | undefined },
+    log,
+  );
+  return json({ success: true, record }, 201);
 }
 
 /**
- * Security headers to add to all responses.
+ * Check the key's scope and quota for this route.
+ * Returns a 403/429 response if the request can't proceed, or null if it can.
  */
-const securityHeaders = {
-  "X-Content-Type-Options": "nosniff",
-  "X-Frame-Options": "DENY",
-  "Strict-Transport-Security": "max-age=31536000; includeSubDomains",
-};
+async function authoriseRequest(
+  request: Request,
+  env: Env,
+  url: URL,
+  apiKey: ApiKeyIdentity,
+  corsHeaders: Record<string, string>,
+  log: Logger,
+): Promise<Response | null> {
+  const scope = requiredScope(url.pathname);
+
+  if (scope && !apiKey.scopes.includes(scope)) {
+    log.warn(
+      `Key ${apiKey.name} (${apiKey.keyId}) lacks scope ${scope} for ${url.pathname}`,
+    );
+    return errorResponse(
+      "FORBIDDEN",
+      `API key is not allowed to access ${scope} endpoints`,
+      { headers: corsHeaders },
+    );
+  }
+
+  // Only work-starting requests count against quotas, not status polls.
+  if (request.method === "POST" && scope && scope !== "admin") {
+    const quota = await consumeQuota(env.BROWSER_SESSIONS, apiKey);
+    if (!quota.ok) {
+      log.warn(
+        `Key ${apiKey.name} (${apiKey.keyId}) exceeded ${quota.period} quota of ${quota.limit}`,
+      );
+      const retryAfter = Math.ceil(
+        (Date.parse(quota.resetAt) - Date.now()) / 1000,
+      );
+      return errorResponse(
+        "QUOTA_EXCEEDED",
+        `${quota.period === "daily" ? "Daily" : "Monthly"} quota exceeded`,
+        {
+          retryAfterSeconds: retryAfter,
+          fields: {
+            quota: {
+              period: quota.period,
+              limit: quota.limit,
+              resetAt: quota.resetAt,
+            },
+          },
+          headers: corsHeaders,
+        },
+      );
+    }
+  }
+
+  return null;
+}
 
 /**
- * Main request handler.
+ * Route an authenticated, authorised request to its handler.
  */
-export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    const url = new URL(request.url);
-
-    const corsHeaders = {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization",
-      ...securityHeaders,
-    };
+async function routeRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  url: URL,
+  corsHeaders: Record<string, string>,
+  apiKey: ApiKeyIdentity,
+  log: Logger,
+): Promise<Response> {
+  if (url.pathname === "/data-import" && request.method === "POST") {
+    const response = await handleDataImport(
+      request,
+      env,
+      ctx,
+      apiKey,
+      log.child("DataImport"),
+    );
+    response.headers.set(
+      "Access-Control-Allow-Origin",
+      corsHeaders["Access-Control-Allow-Origin"],
+    );
+    return response;
+  }
 
-    // CORS preflight
-    if (request.method === "OPTIONS") {
-      return new Response(null, {
-        status: 204,
-        headers: corsHeaders,
-      });
-    }
+  if (url.pathname === "/data-import/stream" && request.method === "POST") {
+    const response = await handleDataImportStream(
+      request,
+      env,
+      ctx,
+      apiKey,
+      log.child("DataImportStream"),
+    );
+    response.headers.set(
+      "Access-Control-Allow-Origin",
+      corsHeaders["Access-Control-Allow-Origin"],
+    );
+    return response;
+  }
 
-    // Root page (public)
-    if (url.pathname === "/" && request.method === "GET") {
-      return handleRoot();
-    }
+  // Import job status endpoint.
+  const jobMatch = url.pathname.match(/^\/jobs\/([\w-]+)$/);
+  if (jobMatch && request.method === "GET") {
+    const response = await handleJobStatus(jobMatch[1], env);
+    response.headers.set(
+      "Access-Control-Allow-Origin",
+      corsHeaders["Access-Control-Allow-Origin"],
+    );
+    return response;
+  }
+
+  // Place details endpoint — proxies to local Playwright server.
+  if (url.pathname === "/api/place-details" && request.method === "POST") {
+    const useLocalPlaywright = env.USE_LOCAL_PLAYWRIGHT === "1";
+    const placeLog = log.child("PlaceDetails");
+
+    if (useLocalPlaywright) {
+      const playwrightServerUrl =
+        env.PLAYWRIGHT_SERVER_URL || "http://localhost:3001";
+      const body: any = await request.json();
+
+      const locale = normaliseLocale(body.locale ?? DEFAULT_LOCALE);
+      if (!locale) {
+        return invalidLocaleResponse(corsHeaders);
+      }
+
+      const waitSeconds = normaliseWaitSeconds(body.waitSeconds);
+      if (waitSeconds === null) {
+        return invalidWaitSecondsResponse(corsHeaders);
+      }
+      if (body.priority !== undefined && !isPoolPriority(body.priority)) {
+        return invalidPriorityResponse(corsHeaders);
+      }
+
+      // Acquire a session from the pool for local Playwright too
+      const poolResult = await acquireSession(
+        env,
+        body.sessionId,
+        body.url,
+        {
+          waitSeconds,
+          priority: poolPriorityFor(body.priority, apiKey, "batch"),
+          log: placeLog,
+        },
+      );
+
+      if (!poolResult.ok) {
+        return placeDetailsPoolFullResponse(poolResult, corsHeaders);
+      }
+
+      const sessionLog = placeLog.with({ sessionId: poolResult.sessionId });
+      const stopHeartbeat = startLeaseHeartbeat(
+        getSessionPool(env),
+        poolResult.sessionId,
+        poolResult.leaseId,
+        sessionLog,
+      );
 
-    // Rate limiting for authenticated endpoints (production only)
-    if (url.pathname !== "/") {
       try {
-        if (env.API_RATE_LIMITER) {
-          const ip = request.headers.get("CF-Connecting-IP") || "unknown";
-          const { success } = await env.API_RATE_LIMITER.limit({ key: ip });
-
-          if (!success) {
-            console.warn(`[RateLimit] Rate limit exceeded for IP: ${ip}`);
-            return new Response(
-              JSON.stringify({
-                success: false,
-                error: "Rate limit exceeded",
-              }),
-              {
-                status: 429,
-                headers: {
-                  "Content-Type": "application/json",
-                  "Retry-After": "60",
-                  ...corsHeaders,
-                },
-              },
-            );
-          }
+        const selectors = await activeSelectors(
+          env.BROWSER_SESSIONS,
+          sessionLog,
+        );
+        const response = await fetch(
+          `${playwrightServerUrl}/api/place-details`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              ...body,
+              locale,
+              sessionId: poolResult.sessionId,
+              blocking: resourceBlockingPolicy("place-details", env),
+              selectors: selectors.selectors,
+            }),
+          },
+        );
+
+        const { blocking, ...data } = (await response.json()) as {
+          result?: any;
+          queue?: QueueInfo;
+          acquire?: AcquireRetryInfo;
+          blocking?: BlockingCounts;
+          resourceBlocking?: ResourceBlockingStats;
+          selectors?: SelectorUsage;
+          code?: string;
+          retryAfterSeconds?: number;
+          interstitial?: string;
+        };
+        if (data.code === "BLOCKED_BY_GOOGLE") {
+          await flagPooledSession(
+            getSessionPool(env),
+            poolResult.sessionId,
+            data.interstitial ?? "blocked",
+            sessionLog,
+          );
+        }
+        if (data.result) {
+          const { selectorMatches, ...raw } = data.result;
+          data.result = finalisePlaceDetails(raw, locale);
+          data.selectors = {
+            version: selectors.version,
+            matched: selectorMatches,
+          };
+        }
+        if (body.debug && blocking) {
+          data.resourceBlocking = resourceBlockingStats(blocking);
+        }
+        if (poolResult.queue) {
+          data.queue = poolResult.queue;
+        }
+        if (poolResult.acquire) {
+          data.acquire = poolResult.acquire;
         }
-      } catch (rateLimitError) {
-        // Rate limiting not available in local dev - skip silently
-        console.debug(
-          `[RateLimit] Skipped (not available in dev): ${rateLimitError}`,
-        );
-      }
-    }
-
-    // Data import endpoint (requires API key)
-    if (!validateApiKey(request, env)) {
-      const ip = request.headers.get("CF-Connecting-IP") || "unknown";
-      const authHeader = request.headers.get("Authorization") || "none";
-      console.error(
-        `[Auth] Failed authentication attempt - IP: ${ip}, Path: ${
-          url.pathname
-        }, Method: ${request.method}, Auth Header: ${
-          authHeader ? "present" : "missing"
-        }`,
-      );
 
-      if (url.pathname !== "/" && request.method === "GET") {
-        return new Response(null, {
-          status: 302,
-          headers: { Location: "/" },
-        });
-      }
+        // Release session back to pool
+        stopHeartbeat();
+        await releasePooledSession(
+          getSessionPool(env),
+          poolResult.sessionId,
+          poolResult.leaseId,
+          sessionLog,
+        );
 
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Unauthorized",
-        }),
-        {
-          status: 401,
+        return new Response(JSON.stringify(data), {
+          status: response.status,
           headers: {
             "Content-Type": "application/json",
+            ...(data.retryAfterSeconds !== undefined && {
+              "Retry-After": String(data.retryAfterSeconds),
+            }),
             ...corsHeaders,
           },
-        },
-      );
-    }
-
-    if (url.pathname === "/data-import" && request.method === "POST") {
-      const response = await handleDataImport(request, env);
-      response.headers.set(
-        "Access-Control-Allow-Origin",
-        corsHeaders["Access-Control-Allow-Origin"],
-      );
-      return response;
-    }
-
-    // Place details endpoint — proxies to local Playwright server.
-    if (url.pathname === "/api/place-details" && request.method === "POST") {
-      const useLocalPlaywright = env.USE_LOCAL_PLAYWRIGHT === "1";
-
-      if (useLocalPlaywright) {
-        const playwrightServerUrl =
-          env.PLAYWRIGHT_SERVER_URL || "http://localhost:3001";
-        const body = await request.json();
+        });
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        sessionLog.error(`Playwright proxy error: ${msg}`);
+
+        // Release session back to pool on error too
+        stopHeartbeat();
+        await releasePooledSession(
+          getSessionPool(env),
+          poolResult.sessionId,
+          poolResult.leaseId,
+          sessionLog,
+        );
 
-        // Acquire a session from the pool for local Playwright too
-        const poolResult = await acquirePooledSession(
-          env.BROWSER_SESSIONS,
-          env.BROWSER,
-          body.sessionId,
-          body.url,
+        return errorResponse(
+          classifyError(error, "Failed to extract place details"),
+          undefined,
+          { headers: corsHeaders },
         );
+      }
+    } else {
+      // Production: use Cloudflare Browser Rendering with session pool.
+      const body = (await request.json()) as {
+        url?: string;
+        locale?: string;
+        waitSeconds?: number;
+        priority?: PoolPriority;
+        debug?: boolean;
+      };
+      const placeUrl = body.url;
 
-        if (!poolResult) {
-          return new Response(
-            JSON.stringify({
-              error:
-                "All browser sessions are currently busy. Please retry shortly.",
-              poolFull: true,
-            }),
-            {
-              status: 503,
-              headers: {
-                "Content-Type": "application/json",
-                "Retry-After": "10",
-                ...corsHeaders,
-              },
-            },
-          );
-        }
+      if (!placeUrl) {
+        return errorResponse("INVALID_REQUEST", "Missing url parameter", {
+          headers: corsHeaders,
+        });
+      }
 
-        try {
-          const response = await fetch(
-            `${playwrightServerUrl}/api/place-details`,
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                ...body,
-                sessionId: poolResult.sessionId,
-              }),
-            },
-          );
+      const locale = normaliseLocale(body.locale ?? DEFAULT_LOCALE);
+      if (!locale) {
+        return invalidLocaleResponse(corsHeaders);
+      }
 
-          const data = await response.json();
+      const waitSeconds = normaliseWaitSeconds(body.waitSeconds);
+      if (waitSeconds === null) {
+        return invalidWaitSecondsResponse(corsHeaders);
+      }
+      if (body.priority !== undefined && !isPoolPriority(body.priority)) {
+        return invalidPriorityResponse(corsHeaders);
+      }
+      const priority = poolPriorityFor(body.priority, apiKey, "batch");
 
-          // Release session back to pool
-          await releasePooledSession(
-            env.BROWSER_SESSIONS,
-            poolResult.sessionId,
-          );
+      // Acquire a session from the pool.
+      let poolSessionId: string;
+      let browser: any;
 
-          return new Response(JSON.stringify(data), {
-            status: response.status,
-            headers: { "Content-Type": "application/json", ...corsHeaders },
-          });
-        } catch (error) {
-          const msg = error instanceof Error ? error.message : String(error);
-          console.error(`[PlaceDetails] Playwright proxy error: ${msg}`);
+      const poolResult = await acquireSession(env, undefined, undefined, {
+        waitSeconds,
+        priority,
+        log: placeLog,
+      });
 
-          // Release session back to pool on error too
-          await releasePooledSession(
-            env.BROWSER_SESSIONS,
-            poolResult.sessionId,
-          );
+      if (!poolResult.ok) {
+        return placeDetailsPoolFullResponse(poolResult, corsHeaders);
+      }
 
-          return new Response(
-            JSON.stringify({ error: "Failed to extract place details" }),
-            {
-              status: 502,
-              headers: { "Content-Type": "application/json", ...corsHeaders },
-            },
-          );
-        }
-      } else {
-        // Production: use Cloudflare Browser Rendering with session pool.
-        const body = (await request.json()) as { url?: string };
-        const placeUrl = body.url;
-
-        if (!placeUrl) {
-          return new Response(
-            JSON.stringify({ error: "Missing url parameter" }),
-            {
-              status: 400,
-              headers: { "Content-Type": "application/json", ...corsHeaders },
-            },
-          );
-        }
+      poolSessionId = poolResult.sessionId;
+      let leaseId = poolResult.leaseId;
+      let acquireInfo = poolResult.acquire;
+      let sessionLog = placeLog.with({ sessionId: poolSessionId });
 
-        // Acquire a session from the pool.
-        let poolSessionId: string;
-        let browser: any;
+      try {
+        browser = await connect(env.BROWSER, poolSessionId);
+        sessionLog.info(
+          `Connected to session ${poolSessionId} (reused: ${poolResult.reused})`,
+        );
+      } catch (connectError) {
+        const msg =
+          connectError instanceof Error
+            ? connectError.message
+            : String(connectError);
+        sessionLog.error(
+          `Failed to connect to session ${poolSessionId}: ${msg}`,
+        );
 
-        const poolResult = await acquirePooledSession(
-          env.BROWSER_SESSIONS,
-          env.BROWSER,
+        // Dead session — clean up and retry once.
+        await removePooledSession(
+          getSessionPool(env),
+          poolSessionId,
+          sessionLog,
         );
 
-        if (!poolResult) {
-          return new Response(
-            JSON.stringify({
-              error:
-                "All browser sessions are currently busy. Please retry shortly.",
-              poolFull: true,
-            }),
-            {
-              status: 503,
-              headers: {
-                "Content-Type": "application/json",
-                "Retry-After": "10",
-                ...corsHeaders,
-              },
-            },
-          );
-        }
+        const retryResult = await acquireSession(env, undefined, undefined, {
+          priority,
+          log: placeLog,
+        });
 
-        poolSessionId = poolResult.sessionId;
+        if (!retryResult.ok) {
+          return placeDetailsPoolFullResponse(retryResult, corsHeaders);
+        }
 
+        poolSessionId = retryResult.sessionId;
+        leaseId = retryResult.leaseId;
+        acquireInfo = retryResult.acquire;
+        sessionLog = placeLog.with({ sessionId: poolSessionId });
         try {
           browser = await connect(env.BROWSER, poolSessionId);
-          console.log(
-            `[PlaceDetails] Connected to session ${poolSessionId} (reused: ${poolResult.reused})`,
-          );
-        } catch (connectError) {
-          const msg =
-            connectError instanceof Error
-              ? connectError.message
-              : String(connectError);
-          console.error(
-            `[PlaceDetails] Failed to connect to session ${poolSessionId}: ${msg}`,
+        } catch (retryError) {
+          await removePooledSession(
+            getSessionPool(env),
+            poolSessionId,
+            sessionLog,
           );
-
-          // Dead session — clean up and retry once.
-          await removePooledSession(env.BROWSER_SESSIONS, poolSessionId);
-
-          const retryResult = await acquirePooledSession(
-            env.BROWSER_SESSIONS,
-            env.BROWSER,
+          const retryMsg =
+            retryError instanceof Error
+              ? retryError.message
+              : String(retryError);
+          return errorResponse(
+            "SESSION_DEAD",
+            `Could not connect to a browser session: ${retryMsg}`,
+            { headers: corsHeaders },
           );
+        }
+        sessionLog.info(`Connected to retry session ${poolSessionId}`);
+      }
 
-          if (!retryResult) {
-            return new Response(
-              JSON.stringify({
-                error:
-                  "All browser sessions are currently busy. Please retry shortly.",
-                poolFull: true,
-              }),
-              {
-                status: 503,
-                headers: {
-                  "Content-Type": "application/json",
-                  "Retry-After": "10",
-                  ...corsHeaders,
-                },
-              },
-            );
-          }
+      const stopHeartbeat = startLeaseHeartbeat(
+        getSessionPool(env),
+        poolSessionId,
+        leaseId,
+        sessionLog,
+      );
+      const resourceBlocker = new ResourceBlocker(
+        resourceBlockingPolicy("place-details", env),
+      );
+      let page: any;
 
-          poolSessionId = retryResult.sessionId;
-          browser = await connect(env.BROWSER, poolSessionId);
-          console.log(
-            `[PlaceDetails] Connected to retry session ${poolSessionId}`,
-          );
-        }
+      // Opening the page can fail on a dead session, so it happens inside
+      // the try that stops the heartbeat and releases the lease.
+      try {
+        page = await browser.newPage();
+        await resourceBlocker.attach(page);
+        const selectors = await activeSelectors(
+          env.BROWSER_SESSIONS,
+          sessionLog,
+        );
 
-        const page = await browser.newPage();
+        // Strip @lat,lng,zoom/ from the URL to avoid inheriting stale viewport
+        // coordinates from the collection page. This forces Google Maps to
+        // recentre on the actual place location.
+        const cleanUrl = applyLocaleToUrl(
+          placeUrl.replace(/\/@-?\d+\.?\d*,-?\d+\.?\d*,\d+\.?\d*z\//, "/"),
+          locale,
+        );
+        await page.setExtraHTTPHeaders({
+          "Accept-Language": acceptLanguageHeader(locale),
+        });
+        sessionLog.info(`Navigating to: ${cleanUrl}`);
+        const gotoOptions = { waitUntil: "domcontentloaded", timeout: 20000 };
+        await page.goto(cleanUrl, gotoOptions);
+        await passInterstitials(page, cleanUrl, gotoOptions, sessionLog);
+
+        // Wait for place panel to load.
+        await page.waitForSelector(selectors.selectors.placeName.join(", "), {
+          timeout: 10000,
+        });
 
+        // Wait for the URL to update with coordinates.
         try {
-          // Strip @lat,lng,zoom/ from the URL to avoid inheriting stale viewport
-          // coordinates from the collection page. This forces Google Maps to
-          // recentre on the actual place location.
-          const cleanUrl = placeUrl.replace(
-            /\/@-?\d+\.?\d*,-?\d+\.?\d*,\d+\.?\d*z\//,
-            "/",
+          await page.waitForURL(/@-?\d+\.\d+,-?\d+\.\d+/, { timeout: 8000 });
+        } catch (_) {
+          sessionLog.info(
+            "URL did not update with coordinates, will try DOM fallback",
           );
-          console.log(`[PlaceDetails] Navigating to: ${cleanUrl}`);
-          await page.goto(cleanUrl, {
-            waitUntil: "domcontentloaded",
-            timeout: 20000,
-          });
-
-          // Wait for place panel to load.
-          await page.waitForSelector("h1", { timeout: 10000 });
-
-          // Wait for the URL to update with coordinates.
-          try {
-            await page.waitForURL(/@-?\d+\.\d+,-?\d+\.\d+/, { timeout: 8000 });
-          } catch (_) {
-            console.log(
-              "[PlaceDetails] URL did not update with coordinates, will try DOM fallback",
-            );
-          }
+        }
 
-          // Brief settle delay to ensure secondary elements (status badges,
-          // review counts) have rendered after the main content loads.
-          await page.waitForTimeout(500);
-
-          const details = await page.evaluate(() => {
-            const url = window.location.href;
-
-            // Extract coordinates from URL pattern @lat,lng,zoom.
-            const coordMatch = url.match(
-              /@(-?\d+\.\d+),(-?\d+\.\d+),(\d+\.?\d*)z/,
-            );
-            let lat = coordMatch ? parseFloat(coordMatch[1]) : null;
-            let lng = coordMatch ? parseFloat(coordMatch[2]) : null;
-
-            // Fallback: canonical link.
-            if (lat === null || lng === null) {
-              const canonical = (
-                document.querySelector(
-                  'link[rel="canonical"]',
-                ) as HTMLLinkElement
-              )?.href;
-              if (canonical) {
-                const m = canonical.match(/@(-?\d+\.\d+),(-?\d+\.\d+)/);
-                if (m) {
-                  lat = parseFloat(m[1]);
-                  lng = parseFloat(m[2]);
-                }
+        // Brief settle delay to ensure secondary elements (status badges,
+        // review counts) have rendered after the main content loads.
+        await page.waitForTimeout(500);
+
+        const details = await page.evaluate((chains: SelectorChains) => {
+          const url = window.location.href;
+          const matched: Record<string, number | null> = {};
+
+          // Elements for the first selector in the field's chain that
+          // matches anything. Selectors the browser rejects are skipped.
+          const queryAll = (field: keyof SelectorChains): any[] => {
+            for (const [i, selector] of chains[field].entries()) {
+              let found: any[] = [];
+              try {
+                found = document.querySelectorAll(selector);
+              } catch (_) {
+                continue;
               }
-            }
-
-            // Fallback: og:image meta tag.
-            if (lat === null || lng === null) {
-              const ogImage = (
-                document.querySelector(
-                  'meta[property="og:image"]',
-                ) as HTMLMetaElement
-              )?.content;
-              if (ogImage) {
-                const m = ogImage.match(/center=(-?\d+\.\d+)%2C(-?\d+\.\d+)/);
-                if (m) {
-                  lat = parseFloat(m[1]);
-                  lng = parseFloat(m[2]);
-                }
+              if (found.length > 0) {
+                matched[field] = i;
+                return Array.from(found);
               }
             }
+            matched[field] = null;
+            return [];
+          };
 
-            // Name.
-            const name = document.querySelector("h1")?.textContent;
-
-            // Type (category).
-            const typeButton = document.querySelector(
-              'button[jsaction*="category"]',
-            );
-            let type = typeButton?.textContent;
-            if (!type) {
-              const buttons = document.querySelectorAll("button");
-              for (const btn of buttons) {
-                const text = btn.textContent?.toLowerCase() || "";
-                // Skip "Nearby restaurants", "Nearby hotels", etc. — these are
-                // navigation buttons further down the page, not the place category.
-                if (text.startsWith("nearby")) continue;
-                if (
-                  text.includes("restaurant") ||
-                  text.includes("cafe") ||
-                  text.includes("shop") ||
-                  text.includes("bar") ||
-                  text.includes("hotel") ||
-                  text.includes("museum") ||
-                  text.includes("park") ||
-                  text.includes("gallery") ||
-                  text.includes("store")
-                ) {
-                  type = btn.textContent;
-                  break;
-                }
+          // Extract coordinates from URL pattern @lat,lng,zoom.
+          const coordMatch = url.match(
+            /@(-?\d+\.\d+),(-?\d+\.\d+),(\d+\.?\d*)z/,
+          );
+          let lat = coordMatch ? parseFloat(coordMatch[1]) : null;
+          let lng = coordMatch ? parseFloat(coordMatch[2]) : null;
+
+          // Fallback: canonical link.
+          if (lat === null || lng === null) {
+            const canonical = (
+              document.querySelector(
+                'link[rel="canonical"]',
+              ) as HTMLLinkElement
+            )?.href;
+            if (canonical) {
+              const m = canonical.match(/@(-?\d+\.\d+),(-?\d+\.\d+)/);
+              if (m) {
+                lat = parseFloat(m[1]);
+                lng = parseFloat(m[2]);
               }
             }
+          }
 
-            // Address.
-            let address = null;
-            const addressButtons = document.querySelectorAll(
-              'button[aria-label*="Address"], button[data-item-id="address"]',
-            );
-            for (const btn of addressButtons) {
-              const label = btn.getAttribute("aria-label");
-              if (label && label.includes("Address:")) {
-                address = label.replace("Address:", "").trim();
-                break;
-              }
-              const text = btn.textContent;
-              if (text && text.length > 5 && text.length < 200) {
-                address = text;
-                break;
+          // Fallback: og:image meta tag.
+          if (lat === null || lng === null) {
+            const ogImage = (
+              document.querySelector(
+                'meta[property="og:image"]',
+              ) as HTMLMetaElement
+            )?.content;
+            if (ogImage) {
+              const m = ogImage.match(/center=(-?\d+\.\d+)%2C(-?\d+\.\d+)/);
+              if (m) {
+                lat = parseFloat(m[1]);
+                lng = parseFloat(m[2]);
               }
             }
+          }
 
-            // Website.
-            let website = null;
-            const websiteLinks = document.querySelectorAll(
-              'a[data-item-id="authority"], a[aria-label*="Website"]',
-            );
-            for (const link of websiteLinks) {
+          // Name.
+          const name = queryAll("placeName")[0]?.textContent;
+
+          // Type (category).
+          const typeButton = queryAll("placeType")[0];
+          let type = typeButton?.textContent;
+          if (!type) {
+            const buttons = document.querySelectorAll("button");
+            for (const btn of buttons) {
+              const text = btn.textContent?.toLowerCase() || "";
+              // Skip "Nearby restaurants", "Nearby hotels", etc. — these are
+              // navigation buttons further down the page, not the place category.
+              if (text.startsWith("nearby")) continue;
               if (
-                (link as HTMLAnchorElement).href &&
-                !(link as HTMLAnchorElement).href.includes("google.com")
+                text.includes("restaurant") ||
+                text.includes("cafe") ||
+                text.includes("shop") ||
+                text.includes("bar") ||
+                text.includes("hotel") ||
+                text.includes("museum") ||
+                text.includes("park") ||
+                text.includes("gallery") ||
+                text.includes("store")
               ) {
-                website = (link as HTMLAnchorElement).href;
+                type = btn.textContent;
                 break;
               }
             }
+          }
 
-            // Rating.
-            const ratingImg = document.querySelector(
-              '[role="img"][aria-label*="stars"]',
-            );
-            const ratingLabel = ratingImg?.getAttribute("aria-label");
-            const ratingMatch = ratingLabel?.match(/(\d+\.?\d*)\s*stars?/i);
-            const rating = ratingMatch ? parseFloat(ratingMatch[1]) : null;
-
-            // Review count.
-            const reviewButtons = document.querySelectorAll(
-              'button[aria-label*="reviews"], [aria-label*="Reviews"]',
-            );
-            let reviewCount = null;
-            for (const btn of reviewButtons) {
-              const label = btn.getAttribute("aria-label") || btn.textContent;
-              const countMatch = label?.match(/(\d+)\s*reviews?/i);
-              if (countMatch) {
-                reviewCount = parseInt(countMatch[1]);
-                break;
-              }
+          // Address. The aria-label is "<localised 'Address'>: <address>".
+          let address = null;
+          const addressButtons = queryAll("placeAddress");
+          for (const btn of addressButtons) {
+            const label = btn.getAttribute("aria-label");
+            if (label && label.includes(":")) {
+              address = label.replace(/^[^:]+:/, "").trim();
+              break;
+            }
+            const text = btn.textContent;
+            if (text && text.length > 5 && text.length < 200) {
+              address = text;
+              break;
             }
+          }
 
-            // Business status (e.g. "Permanently closed", "Temporarily closed").
-            let status = "operational";
-            const statusEl = document.querySelector("span.fCEvvc");
-            if (statusEl) {
-              const statusText =
-                statusEl.textContent?.trim().toLowerCase() || "";
-              if (statusText.includes("permanently closed")) {
-                status = "permanently_closed";
-              } else if (statusText.includes("temporarily closed")) {
-                status = "temporarily_closed";
-              }
+          // Website.
+          let website = null;
+          const websiteLinks = queryAll("placeWebsite");
+          for (const link of websiteLinks) {
+            if (
+              (link as HTMLAnchorElement).href &&
+              !(link as HTMLAnchorElement).href.includes("google.com")
+            ) {
+              website = (link as HTMLAnchorElement).href;
+              break;
             }
+          }
+
+          // Rating, review count and business status are localised, so
+          // collect the raw labels and parse them in the Worker.
+          const ratingLabels = queryAll("placeRating")
+            .map((el) => el.getAttribute("aria-label") || "")
+            .filter((label) => /\d[.,]\d/.test(label))
+            .slice(0, 10);
+
+          const reviewLabels = queryAll("placeReviews")
+            .map((el) => el.getAttribute("aria-label") || el.textContent || "")
+            .filter((label) => /\d/.test(label))
+            .slice(0, 50);
+
+          const statusText = queryAll("placeStatus")[0]?.textContent || null;
+
+          return {
+            name,
+            type,
+            address,
+            lat,
+            lng,
+            website,
+            ratingLabels,
+            reviewLabels,
+            statusText,
+            google_maps_url: url.split("?")[0],
+            selectorMatches: matched,
+          };
+        }, selectors.selectors);
+
+        const blocking = body.debug ? await resourceBlocker.stats() : undefined;
+        await page.close();
+        stopHeartbeat();
+        await releasePooledSession(
+          getSessionPool(env),
+          poolSessionId,
+          leaseId,
+          sessionLog,
+        );
 
-            return {
-              name,
-              type,
-              address,
-              lat,
-              lng,
-              website,
-              rating,
-              review_count: reviewCount,
-              status,
-              google_maps_url: url.split("?")[0],
-            };
+        const { selectorMatches, ...raw } = details;
+        const result = finalisePlaceDetails(raw, locale);
+        sessionLog.info(
+          `Extracted: ${result.name} | coords={${result.lat}, ${result.lng}}`,
+        );
+        const fallbacks = fallbacksUsed(selectorMatches);
+        if (Object.keys(fallbacks).length > 0) {
+          sessionLog.warn("Selector fallbacks used", {
+            selectorVersion: selectors.version,
+            fallbacks,
           });
+        }
 
-          await page.close();
-          await releasePooledSession(env.BROWSER_SESSIONS, poolSessionId);
+        return new Response(
+          JSON.stringify({
+            result,
+            selectors: { version: selectors.version, matched: selectorMatches },
+            sessionId: poolSessionId,
+            ...(poolResult.queue && { queue: poolResult.queue }),
+            ...(acquireInfo && { acquire: acquireInfo }),
+            ...(blocking && { resourceBlocking: blocking }),
+          }),
+          {
+            status: 200,
+            headers: { "Content-Type": "application/json", ...corsHeaders },
+          },
+        );
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        sessionLog.error(`Error: ${msg}`);
 
-          console.log(
-            `[PlaceDetails] Extracted: ${details.name} | coords={${details.lat}, ${details.lng}}`,
+        stopHeartbeat();
+        if (page) {
+          try {
+            await page.close();
+          } catch (_) {
+            // Page may already be gone if the session died.
+          }
+        }
+        if (error instanceof GoogleInterstitialError) {
+          await flagBlockedSession(
+            env,
+            poolSessionId,
+            browser,
+            error,
+            sessionLog,
           );
+        }
+        await releasePooledSession(
+          getSessionPool(env),
+          poolSessionId,
+          leaseId,
+          sessionLog,
+        );
 
-          return new Response(
-            JSON.stringify({ result: details, sessionId: poolSessionId }),
-            {
-              status: 200,
-              headers: { "Content-Type": "application/json", ...corsHeaders },
-            },
-          );
-        } catch (error) {
-          const msg = error instanceof Error ? error.message : String(error);
-          console.error(`[PlaceDetails] Error: ${msg}`);
+        return errorResponse(
+          classifyError(error, "Failed to extract place details"),
+          undefined,
+          { headers: corsHeaders },
+        );
+      }
+    }
+  }
 
-          await page.close();
-          await releasePooledSession(env.BROWSER_SESSIONS, poolSessionId);
+  // API key management (admin scope).
+  const adminKeysMatch = url.pathname.match(/^\/admin\/keys(?:\/([\w-]+))?$/);
+  if (adminKeysMatch) {
+    const response = await handleAdminKeys(
+      request,
+      env,
+      adminKeysMatch[1] ?? null,
+    );
+    response.headers.set(
+      "Access-Control-Allow-Origin",
+      corsHeaders["Access-Control-Allow-Origin"],
+    );
+    return response;
+  }
 
-          return new Response(
-            JSON.stringify({ error: "Failed to extract place details" }),
-            {
-              status: 500,
-              headers: { "Content-Type": "application/json", ...corsHeaders },
-            },
-          );
+  // Selector registry (admin scope).
+  const adminSelectorsMatch = url.pathname.match(
+    /^\/admin\/selectors(?:\/(\w+))?$/,
+  );
+  if (adminSelectorsMatch) {
+    const response = await handleAdminSelectors(
+      request,
+      env,
+      adminSelectorsMatch[1] ?? null,
+      apiKey,
+      log.child("Selectors"),
+    );
+    response.headers.set(
+      "Access-Control-Allow-Origin",
+      corsHeaders["Access-Control-Allow-Origin"],
+    );
+    return response;
+  }
+
+  // Session pool status (admin scope).
+  if (url.pathname === "/sessions" && request.method === "GET") {
+    const pool = getSessionPool(env);
+    const config = getPoolConfig(env);
+    const sessions = await listPooledSessions(pool, log);
+    const body = {
+      sessions,
+      capacity: {
+        used: sessions.length,
+        max: config.maxSessions,
+        available: Math.max(config.maxSessions - sessions.length, 0),
+        flagged: sessions.filter((s) => s.status === "flagged").length,
+        reservedForInteractive: config.reservedInteractiveSessions,
+      },
+      config,
+      reconciliation: await pool.lastReconcile(),
+    };
+    return new Response(JSON.stringify(body, null, 2), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  }
+
+  // Hourly extraction quality rollups (admin scope).
+  if (url.pathname === "/extraction-quality" && request.method === "GET") {
+    const hours = Math.min(
+      Math.max(parseInt(url.searchParams.get("hours") || "24", 10) || 24, 1),
+      QUALITY_HISTORY_HOURS,
+    );
+    const rollups = await listQualityRollups(env.BROWSER_SESSIONS, hours);
+    const body = {
+      threshold: driftThreshold(env),
+      drifting: rollups.some((rollup) => rollup.driftDetectedAt),
+      rollups,
+    };
+    return new Response(JSON.stringify(body, null, 2), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  }
+
+  // Reconcile the pool with Cloudflare's live sessions now (admin scope).
+  if (url.pathname === "/sessions/reconcile" && request.method === "POST") {
+    const report = await reconcileSessionPool(
+      getSessionPool(env),
+      env.BROWSER,
+      "manual",
+      log,
+    );
+    return new Response(JSON.stringify(report, null, 2), {
+      status: report.error ? 502 : 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  }
+
+  return errorResponse("NOT_FOUND", "Not found", {
+    fields: {
+      available: [
+        "/data-import",
+        "/data-import/stream",
+        "/jobs/<jobId>",
+        "/api/place-details",
+        "/sessions",
+        "/sessions/reconcile",
+        "/extraction-quality",
+        "/admin/keys",
+        "/admin/selectors",
+      ],
+    },
+    headers: corsHeaders,
+  });
+}
+
+/**
+ * Security headers to add to all responses.
+ */
+const securityHeaders = {
+  "X-Content-Type-Options": "nosniff",
+  "X-Frame-Options": "DENY",
+  "Strict-Transport-Security": "max-age=31536000; includeSubDomains",
+};
+
+/**
+ * Authenticate, rate limit and route one request.
+ */
+async function handleRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  log: Logger,
+): Promise<Response> {
+  const url = new URL(request.url);
+
+  const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers":
+      "Content-Type, Authorization, X-Request-Id",
+    "Access-Control-Expose-Headers":
+      "X-Request-Id, X-Api-Key-Id, X-Api-Key-Name, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After, " +
+      // Paging info for CSV, KML and GPX exports (see export-formats.ts).
+      "X-Session-Id, X-Page-Start, X-Page-End, X-Total-Count, X-Has-Next-Page",
+    ...securityHeaders,
+  };
+
+  // CORS preflight
+  if (request.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  // Root page (public)
+  if (url.pathname === "/" && request.method === "GET") {
+    return handleRoot();
+  }
+
+  // All other endpoints require an API key (see api-keys.ts).
+  const auth = await authenticateApiKey(
+    env.BROWSER_SESSIONS,
+    bearerToken(request),
+    env.API_KEYS,
+  );
+  if (!auth.ok) {
+    const ip = request.headers.get("CF-Connecting-IP") || "unknown";
+    log.child("Auth").error("Failed authentication attempt", {
+      ip,
+      method: request.method,
+      path: url.pathname,
+      reason: auth.reason,
+    });
+
+    // Unauthenticated traffic has no key to limit on, so failed attempts
+    // are limited per IP to slow down key guessing (production only).
+    try {
+      if (env.API_RATE_LIMITER) {
+        const { success } = await env.API_RATE_LIMITER.limit({ key: ip });
+
+        if (!success) {
+          log.child("RateLimit").warn(`Rate limit exceeded for IP: ${ip}`);
+          return errorResponse("RATE_LIMITED", "Rate limit exceeded", {
+            headers: corsHeaders,
+          });
         }
       }
+    } catch (rateLimitError) {
+      // Rate limiting not available in local dev - skip silently
+      log
+        .child("RateLimit")
+        .debug(`Skipped (not available in dev): ${rateLimitError}`);
     }
 
-    // Session pool debug endpoint (local development only).
-    if (url.pathname === "/sessions" && request.method === "GET") {
-      // Only allow access during local development
-      if (env.USE_LOCAL_PLAYWRIGHT !== "1") {
-        console.warn(
-          `[Debug] /sessions endpoint accessed in production from ${
-            request.headers.get("CF-Connecting-IP") || "unknown"
-          }`,
-        );
-        return new Response(
-          JSON.stringify({
-            error: "Not found",
-            available: ["/data-import", "/api/place-details"],
-          }),
-          {
-            status: 404,
-            headers: { "Content-Type": "application/json", ...corsHeaders },
-          },
-        );
+    if (url.pathname !== "/" && request.method === "GET") {
+      return new Response(null, {
+        status: 302,
+        headers: { Location: "/" },
+      });
+    }
+
+    return errorResponse("UNAUTHORIZED", "Unauthorized", {
+      headers: corsHeaders,
+    });
+  }
+
+  const apiKey = auth.key;
+  const keyLog = log.with({ apiKey: apiKey.name });
+  keyLog.child("Auth").info(`${request.method} ${url.pathname}`, {
+    keyId: apiKey.keyId,
+  });
+
+  // Refuse to serve with a misconfigured pool rather than guess limits.
+  try {
+    getPoolConfig(env);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    keyLog.child("SessionPool").error(msg);
+    return errorResponse("CONFIG_INVALID", msg, { headers: corsHeaders });
+  }
+
+  // Rate limit on the key, not the IP (see rate-limit.ts). A request that
+  // can't be counted is refused rather than let through.
+  let rateLimit: RateLimitResult;
+  try {
+    rateLimit = await checkRateLimit(
+      getRateLimiter(env),
+      apiKey.keyId,
+      rateLimitBucket(url.pathname),
+    );
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    keyLog.child("RateLimit").error(`Rate limit check failed: ${msg}`);
+    return errorResponse("INTERNAL_ERROR", "Could not check the rate limit", {
+      headers: corsHeaders,
+    });
+  }
+
+  let response: Response;
+  if (!rateLimit.allowed) {
+    keyLog
+      .child("RateLimit")
+      .warn(`Rate limit exceeded for key ${apiKey.name} on ${url.pathname}`);
+    response = errorResponse("RATE_LIMITED", "Rate limit exceeded", {
+      retryAfterSeconds: Math.max(
+        1,
+        rateLimit.reset - Math.floor(Date.now() / 1000),
+      ),
+      headers: corsHeaders,
+    });
+  } else {
+    try {
+      response =
+        (await authoriseRequest(
+          request,
+          env,
+          url,
+          apiKey,
+          corsHeaders,
+          keyLog.child("Auth"),
+        )) ??
+        (await routeRequest(
+          request,
+          env,
+          ctx,
+          url,
+          corsHeaders,
+          apiKey,
+          keyLog,
+        ));
+    } catch (error) {
+      // Errors from routes without their own handling, e.g. acquire
+      // retries running out.
+      const apiError = classifyError(error);
+      if (apiError.code === "INTERNAL_ERROR") {
+        const msg = error instanceof Error ? error.message : String(error);
+        keyLog.error(`Unhandled error on ${url.pathname}: ${msg}`);
       }
+      response = errorResponse(apiError, undefined, {
+        headers: corsHeaders,
+      });
+    }
+  }
 
-      const sessions = await listPooledSessions(env.BROWSER_SESSIONS);
-      const body = {
-        sessions,
-        capacity: {
-          used: sessions.length,
-          max: MAX_CONCURRENT_SESSIONS,
-          available: MAX_CONCURRENT_SESSIONS - sessions.length,
-        },
-      };
-      return new Response(JSON.stringify(body, null, 2), {
-        status: 200,
-        headers: { "Content-Type": "application/json", ...corsHeaders },
+  // Tag every authenticated response with the caller's key identity and
+  // rate limit state so clients can pace themselves.
+  response.headers.set("X-Api-Key-Id", apiKey.keyId);
+  response.headers.set("X-Api-Key-Name", apiKey.name);
+  response.headers.set(
+    "Access-Control-Expose-Headers",
+    corsHeaders["Access-Control-Expose-Headers"],
+  );
+  for (const [name, value] of Object.entries(rateLimitHeaders(rateLimit))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+/**
+ * Main request handler.
+ */
+export default {
+  async fetch(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext,
+  ): Promise<Response> {
+    const log = requestLogger(request, "Worker");
+    const response = await handleRequest(request, env, ctx, log);
+
+    // Echo the request ID so callers can quote it when reporting a problem.
+    response.headers.set(REQUEST_ID_HEADER, log.context.requestId ?? "");
+    log.info("Request completed", {
+      method: request.method,
+      path: new URL(request.url).pathname,
+      status: response.status,
+    });
+    return response;
+  },
+
+  /**
+   * Queue consumer for job mode: each message is one page of an import job
+   * (see import-jobs.ts). Consumed one message at a time.
+   */
+  async queue(batch: MessageBatch<ImportJobStep>, env: Env): Promise<void> {
+    for (const message of batch.messages) {
+      const log = createLogger("ImportJob", {
+        requestId: message.body.requestId,
+        jobId: message.body.job.jobId,
       });
+      await runImportJobStep(message, env, log);
     }
+  },
 
-    return new Response(
-      JSON.stringify({
-        error: "Not found",
-        available: ["/data-import", "/api/place-details", "/sessions"],
-      }),
-      {
-        status: 404,
-        headers: { "Content-Type": "application/json", ...corsHeaders },
-      },
+  /**
+   * Cron trigger: reclaim busy sessions whose lease expired because the
+   * request holding them died, then reconcile the pool with Cloudflare's
+   * live sessions (see session-pool.ts). Also fails import jobs that
+   * stopped making progress.
+   */
+  async scheduled(
+    controller: ScheduledController,
+    env: Env,
+    ctx: ExecutionContext,
+  ): Promise<void> {
+    const pool = getSessionPool(env);
+    const requestId = `cron-${crypto.randomUUID()}`;
+    const log = createLogger("SessionPool", { requestId });
+    ctx.waitUntil(
+      reapSessionPool(pool, log).then(() =>
+        reconcileSessionPool(pool, env.BROWSER, "scheduled", log),
+      ),
     );
+    if (env.WEBHOOK_SECRET) {
+      ctx.waitUntil(
+        failStaleImportJobs(
+          env.BROWSER_SESSIONS,
+          env.WEBHOOK_SECRET,
+          createLogger("ImportJob", { requestId }),
+        ),
+      );
+    }
   },
 };
@@ -0,0 +1,189 @@
+/**
+ * Google Interstitials
+ *
+ * Google sometimes answers a Maps URL with something other than the page:
+ * - the "Before you continue to Google" consent page (consent.google.com),
+ *   mostly in EU regions
+ * - the "unusual traffic" captcha (google.com/sorry/...) or a plain block
+ *   page when it thinks the browser is a bot
+ *
+ * Extraction would find no places on any of these and report an empty
+ * success, so pages are checked after navigation. Consent is accepted
+ * automatically; anything that can't be got past is reported as a typed
+ * outcome, and callers throw GoogleInterstitialError so handlers can return
+ * BLOCKED_BY_GOOGLE or CONSENT_REQUIRED (see errors.ts) and flag the
+ * session in the pool.
+ *
+ * Detection runs inside page.evaluate() without arguments, so it works the
+ * same through the local Playwright HTTP proxy.
+ */
+
+import { createLogger, Logger } from "./logger";
+
+const interstitialLog = createLogger("Interstitial");
+
+export type InterstitialKind = "consent" | "captcha" | "blocked";
+
+/** Outcome of checking a page after navigation. */
+export type InterstitialOutcome =
+  | { ok: true; consentAccepted: boolean }
+  | { ok: false; kind: InterstitialKind; url: string };
+
+/** How long to wait for the consent page to redirect once accepted. */
+const CONSENT_REDIRECT_TIMEOUT_MS = 10000;
+
+/** Poll interval while waiting for the consent redirect. */
+const CONSENT_POLL_INTERVAL_MS = 500;
+
+/**
+ * Google served an interstitial the request couldn't get past.
+ *
+ * botWall is true for captchas and block pages (the session should be
+ * flagged) and false when the consent page couldn't be accepted.
+ */
+export class GoogleInterstitialError extends Error {
+  readonly kind: InterstitialKind;
+  readonly url: string;
+  readonly botWall: boolean;
+
+  constructor(kind: InterstitialKind, url: string) {
+    super(
+      kind === "consent"
+        ? `Google's consent page could not be accepted (${url})`
+        : `Google served a ${kind === "captcha" ? "captcha" : "block page"} instead of the page (${url})`,
+    );
+    this.name = "GoogleInterstitialError";
+    this.kind = kind;
+    this.url = url;
+    this.botWall = kind !== "consent";
+  }
+}
+
+/**
+ * Which interstitial, if any, the page is showing.
+ */
+export async function detectInterstitial(
+  page: any,
+): Promise<{ kind: InterstitialKind | null; url: string }> {
+  return page.evaluate(() => {
+    const url = window.location.href;
+    const { hostname, pathname } = window.location;
+    const text = document.body?.innerText ?? "";
+
+    if (
+      hostname.startsWith("consent.") ||
+      document.querySelector('form[action*="consent.google"]')
+    ) {
+      return { kind: "consent", url };
+    }
+    if (
+      pathname.startsWith("/sorry/") ||
+      document.querySelector("#captcha-form, iframe[src*='recaptcha']") ||
+      /unusual traffic from your computer network/i.test(text)
+    ) {
+      return { kind: "captcha", url };
+    }
+    if (/may be sending automated queries/i.test(text)) {
+      return { kind: "blocked", url };
+    }
+    return { kind: null, url };
+  });
+}
+
+/**
+ * Click "Accept all" on the consent page. The accept form is the one that
+ * posts set_eom=false (the reject form posts true); newer layouts only have
+ * labelled buttons. Returns false if no accept control was found.
+ */
+async function clickAcceptAll(page: any): Promise<boolean> {
+  return page.evaluate(() => {
+    const forms = Array.from(
+      document.querySelectorAll('form[action*="consent.google"]'),
+    );
+    const acceptForm = forms.find((form: any) =>
+      form.querySelector('input[name="set_eom"][value="false"]'),
+    ) as any;
+    let control: any = acceptForm?.querySelector(
+      'button, input[type="submit"]',
+    );
+    if (!control) {
+      control = Array.from(document.querySelectorAll("button")).find(
+        (button: any) =>
+          /accept all/i.test(
+            button.getAttribute("aria-label") || button.textContent || "",
+          ),
+      );
+    }
+    if (!control) {
+      return false;
+    }
+    control.click();
+    return true;
+  });
+}
+
+/**
+ * Check a freshly loaded page for interstitials and get past consent.
+ *
+ * Returns ok: true once the page is the real one (consentAccepted tells the
+ * caller to load its URL again, as the redirect may not land on it), or
+ * ok: false with the interstitial that stopped it.
+ */
+export async function resolveInterstitial(
+  page: any,
+  log: Logger = interstitialLog,
+): Promise<InterstitialOutcome> {
+  const detected = await detectInterstitial(page);
+  if (!detected.kind) {
+    return { ok: true, consentAccepted: false };
+  }
+  if (detected.kind !== "consent") {
+    log.warn(`Google served a ${detected.kind} page`, { url: detected.url });
+    return { ok: false, kind: detected.kind, url: detected.url };
+  }
+
+  log.info("Accepting consent page", { url: detected.url });
+  if (!(await clickAcceptAll(page))) {
+    return { ok: false, kind: "consent", url: detected.url };
+  }
+
+  const deadline = Date.now() + CONSENT_REDIRECT_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await page.waitForTimeout(CONSENT_POLL_INTERVAL_MS);
+    try {
+      const after = await detectInterstitial(page);
+      if (after.kind !== "consent") {
+        return after.kind
+          ? { ok: false, kind: after.kind, url: after.url }
+          : { ok: true, consentAccepted: true };
+      }
+    } catch (_) {
+      // The page is mid-navigation; try again.
+    }
+  }
+  return { ok: false, kind: "consent", url: detected.url };
+}
+
+/**
+ * Get past any interstitial after loading url, loading it again once
+ * consent has been accepted. Throws GoogleInterstitialError if the page
+ * stays hidden.
+ */
+export async function passInterstitials(
+  page: any,
+  url: string,
+  gotoOptions: Record<string, unknown>,
+  log: Logger = interstitialLog,
+): Promise<void> {
+  const outcome = await resolveInterstitial(page, log);
+  if (!outcome.ok) {
+    throw new GoogleInterstitialError(outcome.kind, outcome.url);
+  }
+  if (outcome.consentAccepted) {
+    await page.goto(url, gotoOptions);
+    const reloaded = await resolveInterstitial(page, log);
+    if (!reloaded.ok) {
+      throw new GoogleInterstitialError(reloaded.kind, reloaded.url);
+    }
+  }
+}
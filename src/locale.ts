@@ -0,0 +1,285 @@
+/**
+ * Locale Support
+ *
+ * Google Maps renders ratings, review counts, pagination and business status
+ * in the viewer's language: "4,5", "1,2 K", "2.3M", "1.234", "1–200 von 237",
+ * "237 件中 1～200 件", "Dauerhaft geschlossen". The page scripts return raw
+ * text and these helpers turn it into numbers and status codes in the Worker.
+ *
+ * A request's `locale` (BCP 47, e.g. "de", "fr-FR", "ja") is applied to
+ * navigation via the `hl` query parameter and the Accept-Language header.
+ */
+
+/** Locale used when the request doesn't specify one. */
+export const DEFAULT_LOCALE = "en";
+
+/** Compact-number suffixes and their multipliers, across languages. */
+const COMPACT_SUFFIXES: Array<[RegExp, number]> = [
+  [/^(k|tsd\.?|tys\.?|mil|mil\.|tis\.?|тыс\.?|千)$/i, 1_000],
+  [/^(万|만)$/, 10_000],
+  [/^(m|mio\.?|mln\.?|mi|mill\.?|млн\.?|百万)$/i, 1_000_000],
+  [/^(億|억)$/, 100_000_000],
+];
+
+/** Business status phrases, lower-cased, across languages. */
+const PERMANENTLY_CLOSED = [
+  "permanently closed",
+  "dauerhaft geschlossen",
+  "fermé définitivement",
+  "définitivement fermé",
+  "cerrado permanentemente",
+  "chiuso definitivamente",
+  "chiuso in modo permanente",
+  "permanentemente fechado",
+  "fechado permanentemente",
+  "permanent gesloten",
+  "stängt permanent",
+  "zamknięte na stałe",
+  "закрыто навсегда",
+  "閉業",
+  "폐업",
+  "永久停业",
+  "永久停業",
+];
+
+const TEMPORARILY_CLOSED = [
+  "temporarily closed",
+  "vorübergehend geschlossen",
+  "fermé temporairement",
+  "temporairement fermé",
+  "cerrado temporalmente",
+  "chiuso temporaneamente",
+  "temporariamente fechado",
+  "fechado temporariamente",
+  "tijdelijk gesloten",
+  "tillfälligt stängt",
+  "tymczasowo zamknięte",
+  "временно закрыто",
+  "臨時休業",
+  "임시 휴업",
+  "暂停营业",
+  "暫停營業",
+];
+
+/** Words that mark an aria-label or button text as a review count. */
+const REVIEW_WORDS = [
+  "review",
+  "rezension",
+  "bewertung",
+  "avis",
+  "reseña",
+  "opiniones",
+  "recension",
+  "avaliaç",
+  "resenha",
+  "recensie",
+  "opini",
+  "отзыв",
+  "クチコミ",
+  "리뷰",
+  "评价",
+  "評論",
+];
+
+export type BusinessStatus =
+  | "operational"
+  | "permanently_closed"
+  | "temporarily_closed";
+
+export interface PaginationText {
+  startIndex: number;
+  endIndex: number;
+  total: number;
+}
+
+/**
+ * Validate and canonicalise a BCP 47 locale tag. Returns null if invalid.
+ */
+export function normaliseLocale(locale: unknown): string | null {
+  if (
+    typeof locale !== "string" ||
+    !/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(locale)
+  ) {
+    return null;
+  }
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Set the `hl` query parameter so Google renders the page in the locale.
+ */
+export function applyLocaleToUrl(url: string, locale: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.searchParams.set("hl", locale);
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Accept-Language header value for a locale, with English as a fallback.
+ */
+export function acceptLanguageHeader(locale: string): string {
+  const language = locale.split("-")[0];
+  const preferred =
+    language !== locale ? `${locale},${language};q=0.9` : locale;
+  return language === "en" ? preferred : `${preferred},en;q=0.5`;
+}
+
+/**
+ * The decimal separator a locale uses ("." or ",").
+ */
+function decimalSeparator(locale: string): string {
+  try {
+    const part = new Intl.NumberFormat(locale)
+      .formatToParts(1.5)
+      .find((p) => p.type === "decimal");
+    return part?.value ?? ".";
+  } catch {
+    return ".";
+  }
+}
+
+/**
+ * Parse a localised number, including compact forms like "1,2 K", "2.3M",
+ * "1.234" (de) or "1,5万". Returns undefined if no number is found.
+ *
+ * When a separator could be either decimal or grouping (e.g. "1,234" vs
+ * "1,2"), the locale's decimal separator decides; three digits after a
+ * lone separator with no compact suffix is read as grouping.
+ */
+export function parseLocaleNumber(
+  text: string,
+  locale: string = DEFAULT_LOCALE,
+): number | undefined {
+  // \s also covers the no-break spaces French and others use for grouping.
+  const match = text.match(/(\d[\d.,'\s]*\d|\d)\s*([^\d\s().,]+\.?)?/);
+  if (!match) return undefined;
+
+  let digits = match[1].replace(/['\s]/g, "");
+  const suffix = match[2]?.trim();
+  const multiplier =
+    (suffix && COMPACT_SUFFIXES.find(([re]) => re.test(suffix))?.[1]) || 1;
+
+  const decimal = decimalSeparator(locale);
+  const grouping = decimal === "," ? "." : ",";
+
+  const lastSep = Math.max(digits.lastIndexOf("."), digits.lastIndexOf(","));
+  if (lastSep !== -1) {
+    const sep = digits[lastSep];
+    const fraction = digits.slice(lastSep + 1);
+    const singleSep = digits.indexOf(sep) === lastSep;
+    const otherSepPresent = digits.includes(sep === "." ? "," : ".");
+
+    // Decide whether the last separator is the decimal point.
+    const isDecimal = otherSepPresent
+      ? true
+      : sep === decimal
+        ? !(singleSep && fraction.length === 3 && multiplier === 1)
+        : sep === grouping
+          ? singleSep && fraction.length !== 3
+          : false;
+
+    const intPart = digits.slice(0, lastSep).replace(/[.,]/g, "");
+    digits = isDecimal ? `${intPart}.${fraction}` : `${intPart}${fraction}`;
+  }
+
+  const value = parseFloat(digits);
+  if (Number.isNaN(value)) return undefined;
+  return multiplier === 1 ? value : Math.round(value * multiplier);
+}
+
+/**
+ * Parse a collection card's text, e.g. "Place Name4.5(88)",
+ * "Place Name4,2(1,2 K)" or "Place Name4.2(1.51K)", into name, rating and
+ * review count. Cards without a rating return just the trimmed name.
+ */
+export function parsePlaceCardText(
+  fullText: string,
+  locale: string = DEFAULT_LOCALE,
+): { name: string; rating?: number; reviewCount?: number } {
+  const match = fullText.match(
+    /^(.+?)\s*(\d(?:[.,]\d+)?)\s*\(([^()]*\d[^()]*)\)$/,
+  );
+  if (!match) {
+    return { name: fullText.trim() };
+  }
+
+  const rating = parseLocaleNumber(match[2].replace(",", "."), "en");
+  return {
+    name: match[1].trim(),
+    rating: rating !== undefined && rating <= 5 ? rating : undefined,
+    reviewCount: parseLocaleNumber(match[3], locale),
+  };
+}
+
+/**
+ * Parse pagination text such as "1-200 of 237", "1–200 von 237",
+ * "1 à 200 sur 237" or "237 件中 1～200 件".
+ *
+ * Languages order the three numbers differently, so they are sorted: the
+ * smallest is the start index, the largest the total.
+ */
+export function parsePaginationText(text: string): PaginationText | null {
+  const numbers = (text.match(/\d[\d.,\s]*\d|\d/g) || []).map((n) =>
+    parseInt(n.replace(/\D/g, ""), 10),
+  );
+  if (numbers.length !== 3) return null;
+
+  const [startIndex, endIndex, total] = [...numbers].sort((a, b) => a - b);
+  if (startIndex < 1) return null;
+  return { startIndex, endIndex, total };
+}
+
+/**
+ * Map a status badge's text to a business status, in any supported language.
+ */
+export function parseBusinessStatus(
+  text: string | null | undefined,
+): BusinessStatus {
+  const lower = (text || "").trim().toLowerCase();
+  if (PERMANENTLY_CLOSED.some((phrase) => lower.includes(phrase))) {
+    return "permanently_closed";
+  }
+  if (TEMPORARILY_CLOSED.some((phrase) => lower.includes(phrase))) {
+    return "temporarily_closed";
+  }
+  return "operational";
+}
+
+/**
+ * Pick the review count out of candidate labels such as "88 reviews",
+ * "1.234 Rezensionen" or "クチコミ 1,234 件".
+ */
+export function parseReviewCountLabel(
+  labels: string[],
+  locale: string = DEFAULT_LOCALE,
+): number | undefined {
+  for (const label of labels) {
+    const lower = label.toLowerCase();
+    if (!REVIEW_WORDS.some((word) => lower.includes(word))) continue;
+    const count = parseLocaleNumber(label, locale);
+    if (count !== undefined) return Math.round(count);
+  }
+  return undefined;
+}
+
+/**
+ * Pick the star rating out of candidate labels such as "4.5 stars",
+ * "4,5 Sterne" or "星 4.5". Only values between 1 and 5 are accepted.
+ */
+export function parseRatingLabel(labels: string[]): number | undefined {
+  for (const label of labels) {
+    const match = label.match(/(\d)[.,](\d)/);
+    if (!match) continue;
+    const rating = parseFloat(`${match[1]}.${match[2]}`);
+    if (rating >= 1 && rating <= 5) return rating;
+  }
+  return undefined;
+}
@@ -0,0 +1,145 @@
+/**
+ * Structured Logging
+ *
+ * Every log line is one JSON object, so Workers Logs (and anything tailing
+ * wrangler) can filter on its fields:
+ *
+ *   {
+ *     "level": "info",
+ *     "time": "2026-10-19T09:12:03.511Z",
+ *     "component": "DataImport",
+ *     "message": "Extracted 200 places",
+ *     "requestId": "c0a8e7f2-...",
+ *     "apiKey": "placemake",
+ *     "sessionId": "4f9a...",
+ *     "elapsedMs": 5120,
+ *     ...fields passed with the line
+ *   }
+ *
+ * Each request gets a logger from requestLogger(): its ID is taken from the
+ * inbound X-Request-Id header (or generated) and echoed back, so a client
+ * can follow one import through the Worker, the session pool Durable Object
+ * and its webhooks. Handlers narrow it with child() for their component and
+ * with() once they know the session, and pass it down; code that runs
+ * outside a request uses a module logger from createLogger().
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Correlation fields carried by every line of a request. */
+export interface LogContext {
+  requestId?: string;
+  /** API key name. */
+  apiKey?: string;
+  sessionId?: string;
+  jobId?: string;
+}
+
+/** Header a request ID is read from and echoed back in. */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+/** Inbound IDs longer than this, or with other characters, are replaced. */
+const MAX_REQUEST_ID_LENGTH = 128;
+const REQUEST_ID_PATTERN = /^[\w.:-]+$/;
+
+const CONSOLE_METHODS: Record<LogLevel, "debug" | "log" | "warn" | "error"> = {
+  debug: "debug",
+  info: "log",
+  warn: "warn",
+  error: "error",
+};
+
+export class Logger {
+  constructor(
+    readonly component: string,
+    readonly context: LogContext = {},
+    /** Request start, for elapsedMs. Unset outside a request. */
+    private readonly startedAt?: number,
+  ) {}
+
+  /** The same request, logged under another component. */
+  child(component: string): Logger {
+    return new Logger(component, this.context, this.startedAt);
+  }
+
+  /** Add correlation fields, e.g. the session once one is acquired. */
+  with(context: LogContext = {}): Logger {
+    return new Logger(
+      this.component,
+      { ...this.context, ...context },
+      this.startedAt,
+    );
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.write("error", message, fields);
+  }
+
+  private write(
+    level: LogLevel,
+    message: string,
+    fields: Record<string, unknown> = {},
+  ): void {
+    const line = {
+      level,
+      time: new Date().toISOString(),
+      component: this.component,
+      message,
+      ...this.context,
+      ...(this.startedAt !== undefined && {
+        elapsedMs: Date.now() - this.startedAt,
+      }),
+      ...fields,
+    };
+    console[CONSOLE_METHODS[level]](JSON.stringify(line));
+  }
+}
+
+/**
+ * A logger for code that isn't tied to one request (config, cron jobs).
+ */
+export function createLogger(
+  component: string,
+  context: LogContext = {},
+): Logger {
+  return new Logger(component, context);
+}
+
+/**
+ * The request's ID: the caller's X-Request-Id if it is a sensible token,
+ * otherwise a new UUID.
+ */
+export function requestIdFrom(request: Request): string {
+  const inbound = request.headers.get(REQUEST_ID_HEADER)?.trim();
+  if (
+    inbound &&
+    inbound.length <= MAX_REQUEST_ID_LENGTH &&
+    REQUEST_ID_PATTERN.test(inbound)
+  ) {
+    return inbound;
+  }
+  return crypto.randomUUID();
+}
+
+/**
+ * The root logger for one request, timed from now.
+ */
+export function requestLogger(request: Request, component: string): Logger {
+  return new Logger(
+    component,
+    { requestId: requestIdFrom(request) },
+    Date.now(),
+  );
+}
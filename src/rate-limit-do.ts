@@ -0,0 +1,77 @@
+/**
+ * Rate Limit Durable Object
+ *
+ * Strongly consistent request counter for one API key and rate limit
+ * bucket; each pair has its own instance, named "<keyId>:<bucket>". The
+ * Workers runtime delivers its RPC calls one at a time and each call only
+ * awaits storage, so concurrent requests can't both see the same count. A
+ * failed storage write fails the call instead of leaving a request
+ * uncounted.
+ *
+ * Storage model:
+ * - Key: "window"
+ * - Value: RateLimitWindow (window start and count)
+ * - Deleted by an alarm when the window ends, so keys that stop sending
+ *   requests leave nothing behind
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import {
+  countRequest,
+  RATE_LIMITS,
+  RateLimiter,
+  RateLimitResult,
+  RateLimitWindow,
+} from "./rate-limit";
+
+/** Storage key for the current window. */
+const WINDOW_STORAGE_KEY = "window";
+
+export class RateLimitDurableObject extends DurableObject<unknown> {
+  private window: RateLimitWindow | null = null;
+
+  constructor(ctx: DurableObjectState, env: unknown) {
+    super(ctx, env);
+    ctx.blockConcurrencyWhile(async () => {
+      this.window =
+        (await ctx.storage.get<RateLimitWindow>(WINDOW_STORAGE_KEY)) ?? null;
+    });
+  }
+
+  async hit(limit: number): Promise<RateLimitResult> {
+    const { window, result } = countRequest(
+      this.window,
+      limit,
+      Math.floor(Date.now() / 1000),
+    );
+    if (!result.allowed) {
+      return result;
+    }
+
+    await this.ctx.storage.put(WINDOW_STORAGE_KEY, window);
+    if (this.window?.windowStart !== window.windowStart) {
+      await this.ctx.storage.setAlarm(result.reset * 1000);
+    }
+    this.window = window;
+    return result;
+  }
+
+  async alarm(): Promise<void> {
+    this.window = null;
+    await this.ctx.storage.deleteAll();
+  }
+}
+
+/**
+ * RateLimiter backed by one Durable Object per key and bucket.
+ */
+export function durableObjectRateLimiter(
+  namespace: DurableObjectNamespace<RateLimitDurableObject>,
+): RateLimiter {
+  return {
+    hit: (keyId, bucket) =>
+      namespace
+        .get(namespace.idFromName(`${keyId}:${bucket}`))
+        .hit(RATE_LIMITS[bucket]),
+  };
+}
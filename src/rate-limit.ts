@@ -0,0 +1,140 @@
+/**
+ * Per-Key Rate Limiting
+ *
+ * Fixed one-minute windows counted per API key and route bucket, so a client
+ * behind shared egress IPs gets its own budget and rotating IPs doesn't buy
+ * an attacker anything. /data-import and /api/place-details have separate
+ * buckets; everything else shares a default one.
+ *
+ * Each key and bucket is counted by its own RateLimitDurableObject (see
+ * rate-limit-do.ts), which applies one request at a time, so a burst can't
+ * get past the limit. KV counters couldn't enforce it: a burst read the
+ * same count before any write landed, and KV accepts about one write per
+ * second per key. The Workers rate limiting binding only reports
+ * pass/fail, which isn't enough for X-RateLimit-Remaining/Reset.
+ *
+ * The counting itself (countRequest) is a pure function of the window, so
+ * InMemoryRateLimiter can share it when the RATE_LIMITER binding is missing
+ * in local development.
+ */
+
+/** Window length in seconds. */
+const WINDOW_SECONDS = 60;
+
+export type RateLimitBucket = "data-import" | "place-details" | "default";
+
+/** Requests allowed per key per window, by bucket. */
+export const RATE_LIMITS: Record<RateLimitBucket, number> = {
+  "data-import": 60,
+  "place-details": 120,
+  default: 300,
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Unix time (seconds) when the current window ends. */
+  reset: number;
+}
+
+/**
+ * The rate limit bucket a path counts against.
+ */
+export function rateLimitBucket(pathname: string): RateLimitBucket {
+  if (pathname === "/data-import" || pathname === "/data-import/stream") {
+    return "data-import";
+  }
+  if (pathname === "/api/place-details") {
+    return "place-details";
+  }
+  return "default";
+}
+
+/** Requests counted in one key's current window. */
+export interface RateLimitWindow {
+  /** Unix time (seconds) when the window started. */
+  windowStart: number;
+  count: number;
+}
+
+/**
+ * Count a request against a window. A missing or finished window is
+ * replaced by a new one. Rejected requests are not counted, so the window
+ * is returned unchanged.
+ */
+export function countRequest(
+  current: RateLimitWindow | null,
+  limit: number,
+  nowSeconds: number,
+): { window: RateLimitWindow; result: RateLimitResult } {
+  const windowStart = nowSeconds - (nowSeconds % WINDOW_SECONDS);
+  const reset = windowStart + WINDOW_SECONDS;
+  const count = current?.windowStart === windowStart ? current.count : 0;
+
+  if (count >= limit) {
+    return {
+      window: current!,
+      result: { allowed: false, limit, remaining: 0, reset },
+    };
+  }
+  return {
+    window: { windowStart, count: count + 1 },
+    result: { allowed: true, limit, remaining: limit - count - 1, reset },
+  };
+}
+
+/**
+ * Counts requests per key and bucket. Each call is applied atomically with
+ * respect to every other call for the same key and bucket.
+ */
+export interface RateLimiter {
+  hit(keyId: string, bucket: RateLimitBucket): Promise<RateLimitResult>;
+}
+
+/**
+ * Rate limiter held in memory, for local development. Not shared between
+ * Worker isolates.
+ */
+export class InMemoryRateLimiter implements RateLimiter {
+  private windows = new Map<string, RateLimitWindow>();
+
+  constructor(private clock: () => number = Date.now) {}
+
+  async hit(keyId: string, bucket: RateLimitBucket): Promise<RateLimitResult> {
+    const name = `${keyId}:${bucket}`;
+    const { window, result } = countRequest(
+      this.windows.get(name) ?? null,
+      RATE_LIMITS[bucket],
+      Math.floor(this.clock() / 1000),
+    );
+    this.windows.set(name, window);
+    return result;
+  }
+}
+
+/**
+ * Count a request against the key's bucket for the current window.
+ * Rejected requests are not counted. Throws if the count couldn't be
+ * recorded, rather than letting the request through uncounted.
+ */
+export async function checkRateLimit(
+  limiter: RateLimiter,
+  keyId: string,
+  bucket: RateLimitBucket,
+): Promise<RateLimitResult> {
+  return limiter.hit(keyId, bucket);
+}
+
+/**
+ * Standard rate limit headers for a result.
+ */
+export function rateLimitHeaders(
+  result: RateLimitResult,
+): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(result.reset),
+  };
+}
@@ -0,0 +1,244 @@
+/**
+ * Resource Blocking
+ *
+ * Extraction only reads the DOM and the ds:0 script, so the images, map
+ * tiles, fonts and analytics beacons a full Google Maps page pulls in are
+ * wasted bandwidth and time. A ResourceBlocker intercepts a page's requests
+ * and aborts the resource types and tracker hosts in its policy.
+ *
+ * Each endpoint has its own policy, set with a comma-separated list of
+ * resource types plus the keyword "trackers" (or "none"):
+ * - BLOCK_RESOURCES_DATA_IMPORT (/data-import, its stream and jobs)
+ * - BLOCK_RESOURCES_PLACE_DETAILS (/api/place-details)
+ *
+ * On Cloudflare the blocker uses page.route(). The local Playwright HTTP
+ * proxy has no route(), so the policy is sent to playwright-server.js,
+ * which intercepts on its side and reports its counts back.
+ */
+
+import { createLogger } from "./logger";
+
+const log = createLogger("ResourceBlocking");
+
+export type BlockingEndpoint = "data-import" | "place-details";
+
+/** Resource types a policy may block (Playwright's resourceType()). */
+export const BLOCKABLE_RESOURCE_TYPES = [
+  "image",
+  "media",
+  "font",
+  "stylesheet",
+] as const;
+
+export type BlockableResourceType = (typeof BLOCKABLE_RESOURCE_TYPES)[number];
+
+/** Policy used when the endpoint's variable is unset. */
+export const DEFAULT_RESOURCE_BLOCKING = "image,media,font,trackers";
+
+/** Analytics and ad hosts blocked by "trackers", including subdomains. */
+export const TRACKER_HOSTS = [
+  "google-analytics.com",
+  "googletagmanager.com",
+  "googleadservices.com",
+  "googlesyndication.com",
+  "doubleclick.net",
+];
+
+/**
+ * Rough transfer size of one blocked request, by category, used to estimate
+ * the bytes saved. Aborted requests never report a real size.
+ */
+const ESTIMATED_BYTES: Record<BlockableResourceType | "tracker", number> = {
+  image: 30_000,
+  media: 250_000,
+  font: 40_000,
+  stylesheet: 20_000,
+  tracker: 2_000,
+};
+
+export interface ResourceBlockingEnv {
+  BLOCK_RESOURCES_DATA_IMPORT?: string;
+  BLOCK_RESOURCES_PLACE_DETAILS?: string;
+}
+
+export interface ResourceBlockingPolicy {
+  resourceTypes: BlockableResourceType[];
+  /** Blocked hosts; a request matches a host or any of its subdomains. */
+  hosts: string[];
+}
+
+/** Raw counters, as also returned by playwright-server.js. */
+export interface BlockingCounts {
+  allowed: number;
+  /** Blocked requests by resource type, or "tracker" for tracker hosts. */
+  blocked: Record<string, number>;
+}
+
+/** What blocking saved on a request, reported in debug mode. */
+export interface ResourceBlockingStats {
+  requestsBlocked: number;
+  requestsAllowed: number;
+  blockedByType: Record<string, number>;
+  /** Estimate from typical sizes per type (see ESTIMATED_BYTES). */
+  estimatedBytesSaved: number;
+}
+
+const ENDPOINT_VARIABLES: Record<BlockingEndpoint, keyof ResourceBlockingEnv> =
+  {
+    "data-import": "BLOCK_RESOURCES_DATA_IMPORT",
+    "place-details": "BLOCK_RESOURCES_PLACE_DETAILS",
+  };
+
+function isBlockableResourceType(
+  value: string,
+): value is BlockableResourceType {
+  return (BLOCKABLE_RESOURCE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * The blocking policy for an endpoint. Unknown entries are logged and
+ * ignored rather than failing the request.
+ */
+export function resourceBlockingPolicy(
+  endpoint: BlockingEndpoint,
+  env: ResourceBlockingEnv,
+): ResourceBlockingPolicy {
+  const variable = ENDPOINT_VARIABLES[endpoint];
+  const value = env[variable] ?? DEFAULT_RESOURCE_BLOCKING;
+  const policy: ResourceBlockingPolicy = { resourceTypes: [], hosts: [] };
+
+  for (const entry of value.split(",").map((e) => e.trim().toLowerCase())) {
+    if (entry === "" || entry === "none") {
+      continue;
+    }
+    if (entry === "trackers") {
+      policy.hosts = [...TRACKER_HOSTS];
+    } else if (isBlockableResourceType(entry)) {
+      policy.resourceTypes.push(entry);
+    } else {
+      log.warn(`Ignoring unknown entry "${entry}" in ${variable}`);
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Why a request should be blocked under the policy ("tracker" or its
+ * resource type), or null to let it through.
+ */
+export function blockReason(
+  policy: ResourceBlockingPolicy,
+  resourceType: string,
+  url: string,
+): string | null {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch (_) {
+    return null;
+  }
+  if (
+    policy.hosts.some((h) => hostname === h || hostname.endsWith(`.${h}`))
+  ) {
+    return "tracker";
+  }
+  if ((policy.resourceTypes as string[]).includes(resourceType)) {
+    return resourceType;
+  }
+  return null;
+}
+
+/**
+ * Turn raw counters into the stats reported in debug mode.
+ */
+export function resourceBlockingStats(
+  counts: BlockingCounts,
+): ResourceBlockingStats {
+  let requestsBlocked = 0;
+  let estimatedBytesSaved = 0;
+  for (const [reason, count] of Object.entries(counts.blocked)) {
+    requestsBlocked += count;
+    estimatedBytesSaved +=
+      count * (ESTIMATED_BYTES[reason as keyof typeof ESTIMATED_BYTES] ?? 0);
+  }
+  return {
+    requestsBlocked,
+    requestsAllowed: counts.allowed,
+    blockedByType: { ...counts.blocked },
+    estimatedBytesSaved,
+  };
+}
+
+/**
+ * Applies one endpoint's policy to every page of a request and totals what
+ * was blocked across them.
+ */
+export class ResourceBlocker {
+  private counts: BlockingCounts = { allowed: 0, blocked: {} };
+  /** Local proxy pages, whose counts live in playwright-server.js. */
+  private localPages: any[] = [];
+
+  constructor(readonly policy: ResourceBlockingPolicy) {}
+
+  private get enabled(): boolean {
+    return this.policy.resourceTypes.length > 0 || this.policy.hosts.length > 0;
+  }
+
+  /** Start intercepting a page's requests. */
+  async attach(page: any): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+    if (typeof page.setResourceBlocking === "function") {
+      page.setResourceBlocking(this.policy);
+      this.localPages.push(page);
+      return;
+    }
+    await page.route("**/*", (route: any) => {
+      const request = route.request();
+      const reason = blockReason(
+        this.policy,
+        request.resourceType(),
+        request.url(),
+      );
+      if (reason) {
+        this.counts.blocked[reason] = (this.counts.blocked[reason] ?? 0) + 1;
+        return route.abort("blockedbyclient");
+      }
+      this.counts.allowed++;
+      return route.continue();
+    });
+  }
+
+  /**
+   * Stop intercepting a page that stays open after this request, so no
+   * route is left behind once the client disconnects.
+   */
+  async detach(page: any): Promise<void> {
+    if (this.enabled && typeof page.unroute === "function") {
+      await page.unroute("**/*");
+    }
+  }
+
+  /** Totals across all attached pages. */
+  async stats(): Promise<ResourceBlockingStats> {
+    const total: BlockingCounts = {
+      allowed: this.counts.allowed,
+      blocked: { ...this.counts.blocked },
+    };
+    for (const page of this.localPages) {
+      try {
+        const counts: BlockingCounts = await page.resourceBlockingCounts();
+        total.allowed += counts.allowed;
+        for (const [reason, count] of Object.entries(counts.blocked)) {
+          total.blocked[reason] = (total.blocked[reason] ?? 0) + count;
+        }
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log.warn(`Could not read local counts: ${msg}`);
+      }
+    }
+    return resourceBlockingStats(total);
+  }
+}
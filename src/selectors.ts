@@ -0,0 +1,518 @@
+/**
+ * Selector Registry
+ *
+ * The DOM selectors extraction depends on live in a versioned registry in
+ * KV, so a Google markup change can be fixed without a redeploy. Each field
+ * has an ordered chain of selectors: page scripts try them in turn and use
+ * the first that matches, and responses report which one that was
+ * (`selectors.matched`, 0 being the primary). A field that keeps matching a
+ * fallback is a hint to promote it.
+ *
+ * A publish is refused if any selector doesn't parse (selectorSyntaxError).
+ * Page scripts also skip a selector the browser rejects, as if it matched
+ * nothing, so one bad fallback can't empty every page.
+ *
+ * Publishing a change creates a new version built on the active one, and
+ * rollback re-activates any earlier version. Version 0 is the built-in
+ * DEFAULT_SELECTORS, used while nothing has been published, when KV can't
+ * be read, and for any field a stored version doesn't have.
+ *
+ * KV listings lag behind writes, so a publish numbers its version after
+ * both the active version and the newest listed one, and skips any number
+ * whose key already exists rather than overwriting it. Two publishes at the
+ * same moment can still both pick the same number; publishing is a rare
+ * admin action, so that race is accepted.
+ *
+ * KV data model (shares the BROWSER_SESSIONS namespace):
+ * - Key: "selectors:v:<version>" — JSON SelectorVersion, one per publish
+ * - Key: "selectors:active" — JSON copy of the active SelectorVersion
+ * - No TTL; versions are kept for rollback
+ *
+ * Selectors run inside page.evaluate(), so they are passed to the page
+ * script as its argument rather than read from this module.
+ */
+
+import { createLogger, Logger } from "./logger";
+
+const selectorLog = createLogger("Selectors");
+
+/** KV key prefix for stored versions. */
+const VERSION_PREFIX = "selectors:v:";
+
+/** KV key holding the active version. */
+const ACTIVE_KEY = "selectors:active";
+
+/** Longest fallback chain a field may have. */
+const MAX_CHAIN_LENGTH = 10;
+
+/** Pseudo-classes without an argument that browsers accept. */
+const PSEUDO_CLASSES = new Set([
+  "active",
+  "any-link",
+  "checked",
+  "default",
+  "defined",
+  "disabled",
+  "empty",
+  "enabled",
+  "first-child",
+  "first-of-type",
+  "focus",
+  "focus-visible",
+  "focus-within",
+  "hover",
+  "indeterminate",
+  "invalid",
+  "last-child",
+  "last-of-type",
+  "link",
+  "only-child",
+  "only-of-type",
+  "optional",
+  "placeholder-shown",
+  "read-only",
+  "read-write",
+  "required",
+  "root",
+  "scope",
+  "target",
+  "valid",
+  "visited",
+]);
+
+/**
+ * Functional pseudo-classes browsers accept, by what their argument is: a
+ * selector list, a relative selector list (:has), or anything else.
+ */
+const FUNCTIONAL_PSEUDO_CLASSES = new Map<
+  string,
+  "selectors" | "relative" | "other"
+>([
+  ["not", "selectors"],
+  ["is", "selectors"],
+  ["where", "selectors"],
+  ["has", "relative"],
+  ["nth-child", "other"],
+  ["nth-last-child", "other"],
+  ["nth-of-type", "other"],
+  ["nth-last-of-type", "other"],
+  ["lang", "other"],
+  ["dir", "other"],
+]);
+
+/** Thrown inside selectorSyntaxError to unwind the parser. */
+class SelectorSyntaxError extends Error {}
+
+const IDENT = /^(?:--|-?(?:[_a-zA-Z\u00a0-\uffff]|\\[^\n]))(?:[-\w\u00a0-\uffff]|\\[^\n])*/;
+const NAME = /^(?:[-\w\u00a0-\uffff]|\\[^\n])+/;
+const STRING = /^(?:"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')/;
+
+export const SELECTOR_FIELDS = [
+  "placeLink",
+  "cardContainer",
+  "note",
+  "pagination",
+  "nextButton",
+  "placeName",
+  "placeType",
+  "placeAddress",
+  "placeWebsite",
+  "placeRating",
+  "placeReviews",
+  "placeStatus",
+] as const;
+
+export type SelectorField = (typeof SELECTOR_FIELDS)[number];
+
+/** An ordered fallback chain of CSS selectors per field. */
+export type SelectorChains = Record<SelectorField, string[]>;
+
+/**
+ * Built-in selectors (version 0).
+ * - placeLink: collection place cards (text links with class "ir")
+ * - cardContainer: a card's container, searched from its link with closest()
+ * - note: the user's note within the card container
+ * - pagination: elements holding the "1–200 of 237" text
+ * - nextButton: the next page button, read for its disabled state
+ * - place*: the place details panel; placeRating and placeReviews are
+ *   candidates whose labels are filtered and parsed in the Worker
+ */
+export const DEFAULT_SELECTORS: SelectorChains = {
+  placeLink: ['a[href*="/maps/place/"][class*="ir"]'],
+  cardContainer: [".TOmvfe"],
+  note: ['span[role="textbox"]'],
+  pagination: ['[role="navigation"]', ".Azx0Fe", '[aria-label*="pagination"]'],
+  nextButton: ['button[aria-label*="Next"]', '[aria-label*="next page"]'],
+  placeName: ["h1"],
+  placeType: ['button[jsaction*="category"]'],
+  placeAddress: [
+    'button[data-item-id="address"]',
+    'button[aria-label*="Address"]',
+  ],
+  placeWebsite: ['a[data-item-id="authority"]', 'a[aria-label*="Website"]'],
+  placeRating: ['[role="img"][aria-label]'],
+  placeReviews: ["button[aria-label], span[aria-label], button"],
+  placeStatus: ["span.fCEvvc"],
+};
+
+export interface SelectorVersion {
+  version: number;
+  selectors: SelectorChains;
+  createdAt: string;
+  /** Name of the API key that published it. */
+  createdBy?: string;
+  note?: string;
+  /** Set on the active copy when it was re-activated by a rollback. */
+  activatedAt?: string;
+}
+
+/**
+ * Which selector in each chain matched on a page: its index, or null if
+ * none did. Fields the page script didn't look up are left out.
+ */
+export type SelectorMatches = Partial<Record<SelectorField, number | null>>;
+
+/** What a response reports about the selectors it used. */
+export interface SelectorUsage {
+  version: number;
+  matched: SelectorMatches;
+}
+
+const BUILT_IN: SelectorVersion = {
+  version: 0,
+  selectors: DEFAULT_SELECTORS,
+  createdAt: "1970-01-01T00:00:00.000Z",
+  note: "Built-in defaults",
+};
+
+function versionKey(version: number): string {
+  return `${VERSION_PREFIX}${version}`;
+}
+
+/** Fill in fields a stored version predates from the defaults. */
+function withDefaults(stored: SelectorVersion): SelectorVersion {
+  return {
+    ...stored,
+    selectors: { ...DEFAULT_SELECTORS, ...stored.selectors },
+  };
+}
+
+/**
+ * The selectors to extract with. Falls back to the built-in defaults if
+ * nothing has been published or KV can't be read, so extraction never
+ * fails because of the registry.
+ */
+export async function activeSelectors(
+  kv: KVNamespace,
+  log: Logger = selectorLog,
+): Promise<SelectorVersion> {
+  try {
+    const active = (await kv.get(ACTIVE_KEY, "json")) as SelectorVersion | null;
+    return active ? withDefaults(active) : BUILT_IN;
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log.warn(`Failed to load selectors, using built-in defaults: ${msg}`);
+    return BUILT_IN;
+  }
+}
+
+/**
+ * Stored versions, newest first. Version 0 (the defaults) is not stored
+ * and is not listed.
+ */
+export async function listSelectorVersions(
+  kv: KVNamespace,
+): Promise<SelectorVersion[]> {
+  const versions: SelectorVersion[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const list = await kv.list({ prefix: VERSION_PREFIX, cursor });
+    for (const entry of list.keys) {
+      const value = await kv.get(entry.name);
+      if (value) {
+        versions.push(JSON.parse(value) as SelectorVersion);
+      }
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+
+  return versions.sort((a, b) => b.version - a.version);
+}
+
+/**
+ * The number for the next version: after the active version and the newest
+ * listed one (the listing may not show a recent publish yet), and past any
+ * key that already exists.
+ */
+async function nextVersion(
+  kv: KVNamespace,
+  active: SelectorVersion,
+  versions: SelectorVersion[],
+): Promise<number> {
+  let version = Math.max(active.version, versions[0]?.version ?? 0) + 1;
+  while ((await kv.get(versionKey(version))) !== null) {
+    version++;
+  }
+  return version;
+}
+
+/**
+ * Publish a new version: the active selectors with `changes` applied, so
+ * a fix only needs to send the fields it changes. The new version becomes
+ * active straight away. Existing versions are never overwritten.
+ */
+export async function publishSelectors(
+  kv: KVNamespace,
+  changes: Partial<SelectorChains>,
+  params: { createdBy?: string; note?: string } = {},
+  log: Logger = selectorLog,
+): Promise<SelectorVersion> {
+  const [active, versions] = await Promise.all([
+    activeSelectors(kv, log),
+    listSelectorVersions(kv),
+  ]);
+  const record: SelectorVersion = {
+    version: await nextVersion(kv, active, versions),
+    selectors: { ...active.selectors, ...changes },
+    createdAt: new Date().toISOString(),
+    ...(params.createdBy && { createdBy: params.createdBy }),
+    ...(params.note && { note: params.note }),
+  };
+
+  await kv.put(versionKey(record.version), JSON.stringify(record));
+  await kv.put(ACTIVE_KEY, JSON.stringify(record));
+  log.info(
+    `Published selectors v${record.version} (${Object.keys(changes).join(", ")})`,
+  );
+  return record;
+}
+
+/**
+ * Re-activate an earlier version; without one, the version before the
+ * active one. Version 0 goes back to the built-in defaults. Returns null if
+ * the version doesn't exist.
+ */
+export async function rollbackSelectors(
+  kv: KVNamespace,
+  version?: number,
+  log: Logger = selectorLog,
+): Promise<SelectorVersion | null> {
+  const active = await activeSelectors(kv, log);
+  let target: SelectorVersion | null;
+
+  if (version === undefined) {
+    const versions = await listSelectorVersions(kv);
+    target =
+      versions.find((candidate) => candidate.version < active.version) ??
+      BUILT_IN;
+  } else if (version === 0) {
+    target = BUILT_IN;
+  } else {
+    target = (await kv.get(
+      versionKey(version),
+      "json",
+    )) as SelectorVersion | null;
+  }
+  if (!target) return null;
+
+  if (target.version === 0) {
+    await kv.delete(ACTIVE_KEY);
+  } else {
+    target = { ...target, activatedAt: new Date().toISOString() };
+    await kv.put(ACTIVE_KEY, JSON.stringify(target));
+  }
+  log.info(
+    `Rolled back selectors from v${active.version} to v${target.version}`,
+  );
+  return withDefaults(target);
+}
+
+/**
+ * Check a selector's syntax the way querySelectorAll would, so a typo is
+ * refused at publish time rather than thrown inside every page script.
+ * Returns an error message, or null if the selector parses.
+ */
+function selectorSyntaxError(selector: string): string | null {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new SelectorSyntaxError(`${message} at position ${pos + 1}`);
+  };
+  const rest = () => selector.slice(pos);
+  const take = (pattern: RegExp): string | null => {
+    const match = pattern.exec(rest());
+    if (!match) return null;
+    pos += match[0].length;
+    return match[0];
+  };
+  const skipSpace = () => take(/^\s+/) !== null;
+
+  // The argument of :nth-child() and the like: anything with balanced
+  // brackets, not checked further.
+  const argument = () => {
+    const start = pos;
+    let depth = 0;
+    while (pos < selector.length) {
+      const char = selector[pos];
+      if (char === "(") depth++;
+      if (char === ")" && depth-- === 0) break;
+      if (char === "\\") pos++;
+      pos++;
+    }
+    if (selector.slice(start, pos).trim() === "") fail("Empty argument");
+  };
+
+  const attribute = () => {
+    skipSpace();
+    if (!take(IDENT)) fail("Expected an attribute name");
+    skipSpace();
+    if (take(/^[~|^$*]?=/)) {
+      skipSpace();
+      if (!take(STRING) && !take(IDENT)) fail("Expected an attribute value");
+      skipSpace();
+      if (take(/^[iIsS](?=[\s\]])/)) skipSpace();
+    }
+    if (!take(/^\]/)) fail('Expected "]"');
+  };
+
+  const pseudoClass = () => {
+    if (take(/^:/)) fail("Pseudo-elements never match");
+    const name = take(IDENT)?.toLowerCase() ?? fail("Expected a name");
+    const kind = FUNCTIONAL_PSEUDO_CLASSES.get(name);
+    if (!take(/^\(/)) {
+      if (!PSEUDO_CLASSES.has(name)) {
+        fail(kind ? `:${name} needs an argument` : `Unknown :${name}`);
+      }
+      return;
+    }
+    if (!kind) fail(`Unknown :${name}()`);
+    if (kind === "other") {
+      argument();
+    } else {
+      list(kind === "relative");
+    }
+    skipSpace();
+    if (!take(/^\)/)) fail('Expected ")"');
+  };
+
+  const compound = () => {
+    let parts = take(/^\*/) || take(IDENT) ? 1 : 0;
+    for (;;) {
+      if (take(/^#/)) {
+        if (!take(NAME)) fail("Expected an ID");
+      } else if (take(/^\./)) {
+        if (!take(IDENT)) fail("Expected a class name");
+      } else if (take(/^\[/)) {
+        attribute();
+      } else if (take(/^:/)) {
+        pseudoClass();
+      } else {
+        break;
+      }
+      parts++;
+    }
+    if (parts === 0) fail("Expected a selector");
+  };
+
+  const complex = (relative: boolean) => {
+    skipSpace();
+    if (relative && take(/^[>+~]/)) skipSpace();
+    compound();
+    for (;;) {
+      const spaced = skipSpace();
+      if (take(/^[>+~]/)) {
+        skipSpace();
+        compound();
+      } else if (spaced && pos < selector.length && !/^[,)]/.test(rest())) {
+        compound();
+      } else {
+        break;
+      }
+    }
+  };
+
+  const list = (relative: boolean) => {
+    complex(relative);
+    while (take(/^\s*,/)) complex(relative);
+  };
+
+  try {
+    list(false);
+    skipSpace();
+    if (pos < selector.length) fail(`Unexpected "${selector[pos]}"`);
+    return null;
+  } catch (error) {
+    if (error instanceof SelectorSyntaxError) return error.message;
+    throw error;
+  }
+}
+
+/**
+ * Validate the selector changes of an admin publish request. Returns an
+ * error message, or null if every field is known and has a chain of
+ * non-empty selectors that parse.
+ */
+export function validateSelectorChanges(changes: unknown): string | null {
+  if (typeof changes !== "object" || changes === null) {
+    return "selectors must be an object of field: [selector, ...]";
+  }
+  const fields = Object.entries(changes);
+  if (fields.length === 0) {
+    return "selectors must change at least one field";
+  }
+  for (const [field, chain] of fields) {
+    if (!(SELECTOR_FIELDS as readonly string[]).includes(field)) {
+      return `Unknown field ${field}; expected one of: ${SELECTOR_FIELDS.join(", ")}`;
+    }
+    if (
+      !Array.isArray(chain) ||
+      chain.length === 0 ||
+      chain.length > MAX_CHAIN_LENGTH ||
+      !chain.every((s) => typeof s === "string" && s.trim() !== "")
+    ) {
+      return `${field} must be an array of 1 to ${MAX_CHAIN_LENGTH} non-empty selectors`;
+    }
+    for (const selector of chain) {
+      const error = selectorSyntaxError(selector);
+      if (error) {
+        return `${field}: "${selector}" is not a valid selector (${error})`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Combine the matches of several pages: per field, the furthest fallback
+ * any page needed, or null if no page matched.
+ */
+export function mergeSelectorMatches(
+  matches: SelectorMatches[],
+): SelectorMatches {
+  const merged: SelectorMatches = {};
+  for (const match of matches) {
+    for (const [field, index] of Object.entries(match) as [
+      SelectorField,
+      number | null,
+    ][]) {
+      const current = merged[field];
+      merged[field] =
+        current === undefined || current === null
+          ? index
+          : index === null
+            ? current
+            : Math.max(current, index);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Fields that matched a fallback rather than their primary selector.
+ */
+export function fallbacksUsed(matches: SelectorMatches): SelectorMatches {
+  return Object.fromEntries(
+    Object.entries(matches).filter(([, index]) => index !== null && index > 0),
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Session Pool Durable Object
+ *
+ * Strongly consistent coordinator for the browser session pool. A single
+ * instance (named "default") owns the pool state; the Workers runtime
+ * delivers its RPC calls one at a time and each call only awaits storage,
+ * so every acquire/release/remove is atomic.
+ *
+ * Each call carries the caller's LogContext, so pool lines logged here are
+ * tagged with the ID of the Worker request that made the call.
+ *
+ * Storage model:
+ * - Key: "pool"
+ * - Value: PoolSnapshot (sessions, outstanding reservations, the wait queue
+ *   and the last reconciliation report)
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import { createLogger, LogContext, Logger } from "./logger";
+import {
+  BrowserLimits,
+  LiveBrowserSession,
+  PoolAcquireRequest,
+  PoolDecision,
+  PooledSession,
+  PoolSnapshot,
+  ReconcileReport,
+  SessionPool,
+  sessionPoolConfig,
+  SessionPoolEnv,
+  SessionPoolState,
+} from "./session-pool";
+
+/** Storage key for the pool snapshot. */
+const POOL_STORAGE_KEY = "pool";
+
+/** Name of the single pool instance. */
+const POOL_INSTANCE_NAME = "default";
+
+const poolLog = createLogger("SessionPool");
+
+export class SessionPoolDurableObject extends DurableObject<SessionPoolEnv> {
+  private state = new SessionPoolState();
+
+  constructor(ctx: DurableObjectState, env: SessionPoolEnv) {
+    super(ctx, env);
+    ctx.blockConcurrencyWhile(async () => {
+      const snapshot = await ctx.storage.get<PoolSnapshot>(POOL_STORAGE_KEY);
+      this.state = new SessionPoolState(snapshot, sessionPoolConfig(env));
+    });
+  }
+
+  private async save(): Promise<void> {
+    await this.ctx.storage.put(POOL_STORAGE_KEY, this.state.snapshot());
+  }
+
+  /** Pool lines for one call, tagged with the caller's request. */
+  private log(context?: LogContext): Logger {
+    return poolLog.with(context);
+  }
+
+  async acquire(
+    request: PoolAcquireRequest,
+    context?: LogContext,
+  ): Promise<PoolDecision> {
+    const decision = this.state.acquire(request, Date.now(), this.log(context));
+    await this.save();
+    return decision;
+  }
+
+  async poll(waiterId: string, context?: LogContext): Promise<PoolDecision> {
+    const decision = this.state.poll(waiterId, Date.now(), this.log(context));
+    await this.save();
+    return decision;
+  }
+
+  async confirm(
+    reservationId: string,
+    sessionId: string,
+    context?: LogContext,
+  ): Promise<string> {
+    const leaseId = this.state.confirm(
+      reservationId,
+      sessionId,
+      Date.now(),
+      this.log(context),
+    );
+    await this.save();
+    return leaseId;
+  }
+
+  async cancel(reservationId: string, context?: LogContext): Promise<void> {
+    this.state.cancel(reservationId, Date.now(), this.log(context));
+    await this.save();
+  }
+
+  async heartbeat(
+    sessionId: string,
+    leaseId: string,
+    context?: LogContext,
+  ): Promise<boolean> {
+    const renewed = this.state.heartbeat(
+      sessionId,
+      leaseId,
+      Date.now(),
+      this.log(context),
+    );
+    await this.save();
+    return renewed;
+  }
+
+  async release(
+    sessionId: string,
+    leaseId: string,
+    context?: LogContext,
+  ): Promise<boolean> {
+    const released = this.state.release(
+      sessionId,
+      leaseId,
+      Date.now(),
+      this.log(context),
+    );
+    await this.save();
+    return released;
+  }
+
+  async remove(sessionId: string, context?: LogContext): Promise<void> {
+    this.state.remove(sessionId, Date.now(), this.log(context));
+    await this.save();
+  }
+
+  async flag(
+    sessionId: string,
+    reason: string,
+    context?: LogContext,
+  ): Promise<void> {
+    this.state.flag(sessionId, reason, Date.now(), this.log(context));
+    await this.save();
+  }
+
+  async list(context?: LogContext): Promise<PooledSession[]> {
+    const sessions = this.state.list(Date.now(), this.log(context));
+    await this.save();
+    return sessions;
+  }
+
+  async reap(context?: LogContext): Promise<PooledSession[]> {
+    const reclaimed = this.state.prune(Date.now(), this.log(context));
+    await this.save();
+    return reclaimed;
+  }
+
+  async reconcile(
+    live: LiveBrowserSession[],
+    trigger: ReconcileReport["trigger"],
+    browserLimits?: BrowserLimits,
+    context?: LogContext,
+  ): Promise<ReconcileReport> {
+    const report = this.state.reconcile(
+      live,
+      Date.now(),
+      trigger,
+      browserLimits,
+      this.log(context),
+    );
+    await this.save();
+    return report;
+  }
+
+  async recordReconcileError(
+    trigger: ReconcileReport["trigger"],
+    error: string,
+  ): Promise<ReconcileReport> {
+    const report = this.state.recordReconcileError(Date.now(), trigger, error);
+    await this.save();
+    return report;
+  }
+
+  async lastReconcile(): Promise<ReconcileReport | null> {
+    return this.state.lastReconcile();
+  }
+}
+
+/**
+ * SessionPool backed by the pool Durable Object.
+ */
+export function durableObjectSessionPool(
+  namespace: DurableObjectNamespace<SessionPoolDurableObject>,
+): SessionPool {
+  const stub = namespace.get(namespace.idFromName(POOL_INSTANCE_NAME));
+  return {
+    acquire: (request, context) => stub.acquire(request, context),
+    poll: (waiterId, context) => stub.poll(waiterId, context),
+    confirm: (reservationId, sessionId, context) =>
+      stub.confirm(reservationId, sessionId, context),
+    cancel: (reservationId, context) => stub.cancel(reservationId, context),
+    heartbeat: (sessionId, leaseId, context) =>
+      stub.heartbeat(sessionId, leaseId, context),
+    release: (sessionId, leaseId, context) =>
+      stub.release(sessionId, leaseId, context),
+    remove: (sessionId, context) => stub.remove(sessionId, context),
+    flag: (sessionId, reason, context) =>
+      stub.flag(sessionId, reason, context),
+    list: (context) => stub.list(context),
+    reap: (context) => stub.reap(context),
+    reconcile: (live, trigger, browserLimits, context) =>
+      stub.reconcile(live, trigger, browserLimits, context),
+    recordReconcileError: (trigger, error) =>
+      stub.recordReconcileError(trigger, error),
+    lastReconcile: () => stub.lastReconcile(),
+  };
+}
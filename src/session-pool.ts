@@ -1,162 +1,1472 @@
 /**
  * Browser Session Pool
  *
- * Manages a pool of Cloudflare Browser Rendering sessions using Workers KV.
- * Cloudflare limits accounts to 2 concurrent browser sessions, so this pool
+ * Manages a pool of Cloudflare Browser Rendering sessions. Cloudflare limits
+ * accounts to a few concurrent browser sessions (2 by default), so this pool
  * tracks active sessions, reuses idle ones, and signals when the pool is full.
+ * Pool size, TTLs, keep-alive and acquire behaviour come from the environment
+ * (see sessionPoolConfig), with separate capacity for the local backend.
  *
- * KV data model:
- * - Key: "session:<sessionId>"
- * - Value: JSON string of PooledSession
- * - Metadata: { status: "idle" | "busy" } for quick list-based querying
- * - TTL: 600 seconds (matches CF browser session ~10 min lifetime)
+ * The pool state machine (SessionPoolState) is plain data plus pure
+ * transitions. It lives behind a SessionPool coordinator that applies each
+ * transition atomically: the SessionPoolDurableObject in production (see
+ * session-pool-do.ts) and InMemorySessionPool for tests and single-isolate
+ * development. KV was eventually consistent, so two concurrent imports could
+ * both see a free slot and both call acquire().
+ *
+ * Acquiring a fresh Cloudflare session is slow and happens outside the
+ * coordinator, so a free slot is first reserved, then confirmed with the new
+ * session ID (or cancelled if acquire() fails). Reservations count against
+ * capacity and expire after acquireTimeoutSeconds in case the caller dies.
+ * Cloudflare often rejects acquire() with "429: Rate limit exceeded". Those
+ * calls are retried with jittered exponential backoff for up to
+ * acquireRetryBudgetSeconds, then a BrowserAcquireError lists every attempt.
+ *
+ * Session entries expire sessionTtlSeconds after last use, which may not
+ * exceed the keep-alive Cloudflare is asked to hold idle browsers for.
+ *
+ * Busy sessions are leased: the holder heartbeats (startLeaseHeartbeat) while
+ * it works, and a lease that isn't renewed within LEASE_TTL_SECONDS is
+ * reclaimed as idle. That way a Worker invocation that dies mid-import frees
+ * its session within a minute instead of blocking the pool until the session
+ * TTL. Leases are checked on every pool operation and by the scheduled
+ * reaper (reapSessionPool), and each reclaim is logged. Each grant gets a
+ * new lease ID that heartbeat and release must present, so a holder whose
+ * lease was reclaimed can't renew or release the session under its next
+ * holder. A busy session is never granted again, even when requested by ID.
+ *
+ * Pool entries are our own bookkeeping and can drift from what Cloudflare
+ * actually has open. reconcileSessionPool compares them with the browser
+ * binding's live session list: entries for sessions Cloudflare no longer has
+ * are dropped, and live sessions nobody is connected to are adopted as idle.
+ * It runs on demand (POST /sessions/reconcile) and from the scheduled
+ * handler, and the latest report is shown by /sessions.
+ *
+ * When the pool is full a caller may wait instead of failing straight away:
+ * it joins a bounded FIFO queue (at most MAX_QUEUE_LENGTH waiters, each for
+ * at most MAX_QUEUE_WAIT_SECONDS) and polls the coordinator. Whenever a
+ * session is released or a slot frees up, the head of the queue is granted
+ * it, and newcomers can't jump ahead of waiting callers.
+ *
+ * Callers have a priority class. Interactive work (a user waiting on a
+ * collection import) may use any session; batch work (background jobs,
+ * detail lookups) may not hold the last reservedInteractiveSessions of the
+ * pool, so a burst of batch requests can't starve interactive ones. The
+ * queue has a lane per class and interactive waiters are served first.
+ *
+ * Sessions remember the collection they last loaded (collectionUrl) and
+ * keep that tab open between pagination calls, so a request for the same
+ * collection is steered to that session.
+ *
+ * A session Google has served a captcha or block page is flagged: it stays
+ * in the pool (its browser may still count against Cloudflare's limit) but
+ * is never handed out again.
  */
 
-import { acquire } from "@cloudflare/playwright";
+import { acquire, limits, sessions } from "@cloudflare/playwright";
+import { createLogger, LogContext, Logger } from "./logger";
+
+/** Pool lines outside a request, e.g. from the scheduled reaper. */
+const poolLog = createLogger("SessionPool");
+
+/** How long a busy session's lease lasts without a heartbeat. */
+export const LEASE_TTL_SECONDS = 60;
+
+/** Heartbeat interval; a third of the lease so one missed beat is harmless. */
+const HEARTBEAT_INTERVAL_MS = (LEASE_TTL_SECONDS * 1000) / 3;
+
+/** Longest a caller may wait in the queue for a session. */
+export const MAX_QUEUE_WAIT_SECONDS = 60;
+
+/** Most callers that may wait at once; further callers get 503 immediately. */
+const MAX_QUEUE_LENGTH = 20;
+
+/** How often a waiting caller polls the coordinator. */
+const QUEUE_POLL_INTERVAL_MS = 500;
+
+export type PoolPriority = "interactive" | "batch";
+
+/** Priority classes, highest first. Waiters are served in this order. */
+export const POOL_PRIORITIES: PoolPriority[] = ["interactive", "batch"];
+
+export function isPoolPriority(value: unknown): value is PoolPriority {
+  return POOL_PRIORITIES.includes(value as PoolPriority);
+}
+
+/** Which browser backend the pool hands sessions out for. */
+export type PoolBackend = "cloudflare" | "local";
+
+export interface SessionPoolConfig {
+  backend: PoolBackend;
+  /** Concurrent sessions the pool may hold, for the active backend. */
+  maxSessions: number;
+  /** Lifetime of a session entry after last use. */
+  sessionTtlSeconds: number;
+  /** How long Cloudflare keeps an idle browser open (acquire keep_alive). */
+  keepAliveSeconds: number;
+  /** How long a reserved slot waits for acquire() before it is freed. */
+  acquireTimeoutSeconds: number;
+  /** Total time spent retrying rate-limited acquire() calls. */
+  acquireRetryBudgetSeconds: number;
+  /** Reuse an idle session before starting a fresh one while below capacity. */
+  preferIdle: boolean;
+  /** Sessions batch work may never occupy, so interactive work can start. */
+  reservedInteractiveSessions: number;
+}
+
+/** Environment variables read by sessionPoolConfig. */
+export interface SessionPoolEnv {
+  USE_LOCAL_PLAYWRIGHT?: string;
+  SESSION_POOL_MAX_SESSIONS?: string;
+  SESSION_POOL_LOCAL_MAX_SESSIONS?: string;
+  SESSION_POOL_SESSION_TTL_SECONDS?: string;
+  SESSION_POOL_KEEP_ALIVE_SECONDS?: string;
+  SESSION_POOL_ACQUIRE_TIMEOUT_SECONDS?: string;
+  SESSION_POOL_ACQUIRE_RETRY_BUDGET_SECONDS?: string;
+  SESSION_POOL_PREFER_IDLE?: string;
+  SESSION_POOL_RESERVED_INTERACTIVE?: string;
+}
+
+/** Defaults: Cloudflare's 2 concurrent sessions and ~10 minute lifetime. */
+const DEFAULT_POOL_CONFIG: Omit<SessionPoolConfig, "backend"> = {
+  maxSessions: 2,
+  sessionTtlSeconds: 600,
+  keepAliveSeconds: 600,
+  acquireTimeoutSeconds: 60,
+  acquireRetryBudgetSeconds: 30,
+  preferIdle: false,
+  reservedInteractiveSessions: 1,
+};
+
+/** Cloudflare closes an idle browser after at most 10 minutes. */
+const MAX_KEEP_ALIVE_SECONDS = 600;
+
+/** First backoff delay after a rate-limited acquire(); doubles each retry. */
+const ACQUIRE_RETRY_BASE_DELAY_MS = 1000;
+
+/** Cap on a single backoff delay. */
+const ACQUIRE_RETRY_MAX_DELAY_MS = 8000;
+
+/** Retry-After suggested to clients once acquire() retries run out. */
+const ACQUIRE_RETRY_AFTER_SECONDS = 60;
+
+/** One failed acquire() call. */
+export interface AcquireAttempt {
+  attempt: number;
+  error: string;
+  /** Backoff before the next attempt; 0 for the last one. */
+  delayMs: number;
+}
 
-/** Maximum concurrent browser sessions allowed by Cloudflare. */
-export const MAX_CONCURRENT_SESSIONS = 2;
+/** How many acquire() calls a fresh session took. */
+export interface AcquireRetryInfo {
+  attempts: number;
+  /** Time spent backing off between attempts. */
+  backoffMs: number;
+}
 
-/** TTL for KV entries in seconds. Matches CF browser session lifetime. */
-const SESSION_TTL_SECONDS = 600;
+/**
+ * Cloudflare kept rejecting acquire() as rate limited until the retry
+ * budget ran out.
+ */
+export class BrowserAcquireError extends Error {
+  readonly attempts: AcquireAttempt[];
+  readonly retryAfterSeconds: number;
 
-/** KV key prefix for session entries. */
-const SESSION_PREFIX = "session:";
+  constructor(attempts: AcquireAttempt[]) {
+    super(
+      `Cloudflare browser acquire rate limited after ${attempts.length} attempt(s): ${attempts[attempts.length - 1]?.error}`,
+    );
+    this.name = "BrowserAcquireError";
+    this.attempts = attempts;
+    this.retryAfterSeconds = ACQUIRE_RETRY_AFTER_SECONDS;
+  }
+}
+
+/**
+ * True if an acquire() failure is Cloudflare's "429: Rate limit exceeded".
+ */
+export function isAcquireRateLimit(error: unknown): boolean {
+  const msg = error instanceof Error ? error.message : String(error);
+  return (
+    msg.includes("429") ||
+    msg.includes("Rate limit") ||
+    msg.includes("rate limited")
+  );
+}
+
+/**
+ * Read and validate the pool configuration from the environment. Throws
+ * listing every invalid value, so a misconfigured deployment fails on its
+ * first request instead of running with surprising limits.
+ */
+export function sessionPoolConfig(env: SessionPoolEnv): SessionPoolConfig {
+  const errors: string[] = [];
+  const backend: PoolBackend =
+    env.USE_LOCAL_PLAYWRIGHT === "1" ? "local" : "cloudflare";
+
+  const integer = (
+    name: keyof SessionPoolEnv,
+    fallback: number,
+    min: number,
+    max: number,
+  ): number => {
+    const raw = env[name];
+    if (raw === undefined || raw === "") return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors.push(`${name}="${raw}" must be an integer from ${min} to ${max}`);
+      return fallback;
+    }
+    return value;
+  };
+
+  const maxSessions =
+    backend === "local"
+      ? integer(
+          "SESSION_POOL_LOCAL_MAX_SESSIONS",
+          DEFAULT_POOL_CONFIG.maxSessions,
+          1,
+          100,
+        )
+      : integer(
+          "SESSION_POOL_MAX_SESSIONS",
+          DEFAULT_POOL_CONFIG.maxSessions,
+          1,
+          100,
+        );
+  const keepAliveSeconds = integer(
+    "SESSION_POOL_KEEP_ALIVE_SECONDS",
+    DEFAULT_POOL_CONFIG.keepAliveSeconds,
+    10,
+    MAX_KEEP_ALIVE_SECONDS,
+  );
+  const sessionTtlSeconds = integer(
+    "SESSION_POOL_SESSION_TTL_SECONDS",
+    DEFAULT_POOL_CONFIG.sessionTtlSeconds,
+    30,
+    3600,
+  );
+  const acquireTimeoutSeconds = integer(
+    "SESSION_POOL_ACQUIRE_TIMEOUT_SECONDS",
+    DEFAULT_POOL_CONFIG.acquireTimeoutSeconds,
+    10,
+    300,
+  );
+  const acquireRetryBudgetSeconds = integer(
+    "SESSION_POOL_ACQUIRE_RETRY_BUDGET_SECONDS",
+    DEFAULT_POOL_CONFIG.acquireRetryBudgetSeconds,
+    0,
+    300,
+  );
+  const reservedInteractiveSessions = integer(
+    "SESSION_POOL_RESERVED_INTERACTIVE",
+    Math.min(DEFAULT_POOL_CONFIG.reservedInteractiveSessions, maxSessions - 1),
+    0,
+    maxSessions - 1,
+  );
+
+  let preferIdle = DEFAULT_POOL_CONFIG.preferIdle;
+  const rawPreferIdle = env.SESSION_POOL_PREFER_IDLE;
+  if (rawPreferIdle !== undefined && rawPreferIdle !== "") {
+    if (["1", "true"].includes(rawPreferIdle)) {
+      preferIdle = true;
+    } else if (["0", "false"].includes(rawPreferIdle)) {
+      preferIdle = false;
+    } else {
+      errors.push(
+        `SESSION_POOL_PREFER_IDLE="${rawPreferIdle}" must be true or false`,
+      );
+    }
+  }
+
+  // An entry that outlives the browser would hand out dead sessions.
+  if (backend === "cloudflare" && sessionTtlSeconds > keepAliveSeconds) {
+    errors.push(
+      `SESSION_POOL_SESSION_TTL_SECONDS (${sessionTtlSeconds}) must not exceed SESSION_POOL_KEEP_ALIVE_SECONDS (${keepAliveSeconds})`,
+    );
+  }
+
+  // The slot must outlive the retries, or it could be handed out twice.
+  if (acquireRetryBudgetSeconds >= acquireTimeoutSeconds) {
+    errors.push(
+      `SESSION_POOL_ACQUIRE_RETRY_BUDGET_SECONDS (${acquireRetryBudgetSeconds}) must be less than SESSION_POOL_ACQUIRE_TIMEOUT_SECONDS (${acquireTimeoutSeconds})`,
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid session pool configuration: ${errors.join("; ")}`,
+    );
+  }
+
+  return {
+    backend,
+    maxSessions,
+    sessionTtlSeconds,
+    keepAliveSeconds,
+    acquireTimeoutSeconds,
+    acquireRetryBudgetSeconds,
+    preferIdle,
+    reservedInteractiveSessions,
+  };
+}
 
 export interface PooledSession {
   sessionId: string;
-  status: "idle" | "busy";
+  status: "idle" | "busy" | "flagged";
   createdAt: string;
   lastUsedAt: string;
+  expiresAt: string;
+  /** Set while busy; the session is reclaimed as idle after this time. */
+  leaseExpiresAt?: string;
+  /** Identifies the current holder, while busy. */
+  leaseId?: string;
+  /** Priority class of the current holder, while busy. */
+  priority?: PoolPriority;
   collectionUrl?: string;
+  /** Why the session was flagged (e.g. "captcha"); see flag(). */
+  flaggedReason?: string;
+}
+
+/** How a queued caller fared. */
+export interface QueueInfo {
+  /** Position in the queue when the caller joined (1 = next in line). */
+  position: number;
+  waitedMs: number;
 }
 
 export interface AcquireResult {
   sessionId: string;
+  /** The holder's lease, presented to heartbeat and release. */
+  leaseId: string;
   /** True if reusing an existing idle session rather than acquiring a fresh one. */
   reused: boolean;
+  /** Set when the caller waited in the queue. */
+  queue?: QueueInfo;
+  /** Set when a fresh Cloudflare session was acquired. */
+  acquire?: AcquireRetryInfo;
 }
 
-interface SessionMetadata {
-  status: "idle" | "busy";
+/** Why no session could be handed out. */
+export interface PoolUnavailable {
+  reason: "full" | "queue_full" | "timeout";
+  queue?: QueueInfo;
 }
 
+export type AcquireOutcome =
+  | ({ ok: true } & AcquireResult)
+  | ({ ok: false } & PoolUnavailable);
+
+export interface AcquireOptions {
+  /** Wait up to this many seconds for a session if the pool is full. */
+  waitSeconds?: number;
+  /** Defaults to interactive. */
+  priority?: PoolPriority;
+  /** Keep-alive requested for a fresh Cloudflare session. */
+  keepAliveSeconds?: number;
+  /** Time budget for retrying rate-limited acquire() calls; 0 disables. */
+  retryBudgetSeconds?: number;
+  /** The calling request's logger. */
+  log?: Logger;
+}
+
+/** A slot held while a fresh Cloudflare session is being acquired. */
+export interface PoolReservation {
+  reservationId: string;
+  expiresAt: string;
+  priority: PoolPriority;
+  collectionUrl?: string;
+}
+
+/** A browser session Cloudflare reports as open. */
+export interface LiveBrowserSession {
+  sessionId: string;
+  /** Epoch milliseconds when the session started, if known. */
+  startTime?: number;
+  /** True if a client currently holds a connection to the session. */
+  connected: boolean;
+}
+
+/** Account limits reported by the browser binding. */
+export interface BrowserLimits {
+  activeSessions: number;
+  maxConcurrentSessions: number;
+  allowedBrowserAcquisitions: number;
+  timeUntilNextAllowedBrowserAcquisition: number;
+}
+
+/** What a reconciliation run found and changed. */
+export interface ReconcileReport {
+  checkedAt: string;
+  trigger: "manual" | "scheduled";
+  liveSessions: number;
+  /** Pool entries dropped because Cloudflare no longer has the session. */
+  removed: string[];
+  /** Live sessions the pool didn't track, now added as idle. */
+  adopted: string[];
+  /** Live, untracked sessions with an active connection, left alone. */
+  inUseElsewhere: string[];
+  limits?: BrowserLimits;
+  error?: string;
+}
+
+/** What a queued caller has been handed. */
+export type PoolGrant =
+  | { type: "reused"; sessionId: string; leaseId: string }
+  | { type: "reserved"; reservationId: string };
+
+/** A caller waiting for a session, in FIFO order. */
+export interface PoolWaiter {
+  waiterId: string;
+  enqueuedAt: string;
+  /** The caller gives up after this time. */
+  deadline: string;
+  priority: PoolPriority;
+  collectionUrl?: string;
+  /** Set once a session or slot has been handed to this waiter. */
+  grant?: PoolGrant;
+}
+
+/** Serialisable pool state, as persisted by coordinators. */
+export interface PoolSnapshot {
+  sessions: Record<string, PooledSession>;
+  reservations: Record<string, PoolReservation>;
+  queue?: PoolWaiter[];
+  lastReconcile?: ReconcileReport;
+}
+
+export interface PoolAcquireRequest {
+  requestedSessionId?: string;
+  collectionUrl?: string;
+  /** Join the queue for up to this many seconds if the pool is full. */
+  waitSeconds?: number;
+  /** Defaults to interactive. */
+  priority?: PoolPriority;
+}
+
+/** The coordinator's answer to an acquire request or queue poll. */
+export type PoolDecision =
+  | PoolGrant
+  | { type: "queued"; waiterId: string; position: number }
+  | { type: "full"; reason: PoolUnavailable["reason"] };
+
 /**
- * Store a session entry in KV with the appropriate TTL and metadata.
+ * A strongly consistent pool coordinator. Each call is applied atomically
+ * with respect to every other call.
+ *
+ * Calls that change the pool take the caller's LogContext, so the lines the
+ * coordinator logs (including expiries and grants the call triggers) carry
+ * the ID of the request behind them.
  */
-async function putSession(
-  kv: KVNamespace,
-  session: PooledSession,
-): Promise<void> {
-  const key = `${SESSION_PREFIX}${session.sessionId}`;
-  const metadata: SessionMetadata = { status: session.status };
+export interface SessionPool {
+  acquire(
+    request: PoolAcquireRequest,
+    context?: LogContext,
+  ): Promise<PoolDecision>;
+  /** Check on a queued caller: granted, still queued, or timed out. */
+  poll(waiterId: string, context?: LogContext): Promise<PoolDecision>;
+  /** Track the session acquired for a reservation; returns its lease. */
+  confirm(
+    reservationId: string,
+    sessionId: string,
+    context?: LogContext,
+  ): Promise<string>;
+  cancel(reservationId: string, context?: LogContext): Promise<void>;
+  heartbeat(
+    sessionId: string,
+    leaseId: string,
+    context?: LogContext,
+  ): Promise<boolean>;
+  release(
+    sessionId: string,
+    leaseId: string,
+    context?: LogContext,
+  ): Promise<boolean>;
+  remove(sessionId: string, context?: LogContext): Promise<void>;
+  /** Stop handing out a session Google has started blocking. */
+  flag(
+    sessionId: string,
+    reason: string,
+    context?: LogContext,
+  ): Promise<void>;
+  list(context?: LogContext): Promise<PooledSession[]>;
+  /** Reclaim expired leases now. Returns the sessions that were reclaimed. */
+  reap(context?: LogContext): Promise<PooledSession[]>;
+  reconcile(
+    live: LiveBrowserSession[],
+    trigger: ReconcileReport["trigger"],
+    limits?: BrowserLimits,
+    context?: LogContext,
+  ): Promise<ReconcileReport>;
+  /** Store a failed reconciliation so /sessions can show it. */
+  recordReconcileError(
+    trigger: ReconcileReport["trigger"],
+    error: string,
+  ): Promise<ReconcileReport>;
+  lastReconcile(): Promise<ReconcileReport | null>;
+}
 
-  await kv.put(key, JSON.stringify(session), {
-    expirationTtl: SESSION_TTL_SECONDS,
-    metadata,
-  });
+/**
+ * Pool state machine. Every transition takes the current time so expiry is
+ * deterministic and coordinators can persist the snapshot afterwards.
+ */
+export class SessionPoolState {
+  private data: PoolSnapshot;
 
-  console.log(
-    `[SessionPool] Stored session ${session.sessionId} as ${session.status} (TTL: ${SESSION_TTL_SECONDS}s)`,
-  );
+  constructor(
+    snapshot?: PoolSnapshot,
+    private config: SessionPoolConfig = sessionPoolConfig({}),
+  ) {
+    this.data = snapshot
+      ? structuredClone(snapshot)
+      : { sessions: {}, reservations: {} };
+    this.data.queue ??= [];
+  }
+
+  private get queue(): PoolWaiter[] {
+    return this.data.queue!;
+  }
+
+  snapshot(): PoolSnapshot {
+    return structuredClone(this.data);
+  }
+
+  /**
+   * Drop expired sessions and reservations, and reclaim busy sessions whose
+   * lease has run out. Returns the reclaimed sessions.
+   */
+  prune(now: number, log: Logger = poolLog): PooledSession[] {
+    const reclaimed: PooledSession[] = [];
+
+    for (const [id, session] of Object.entries(this.data.sessions)) {
+      if (Date.parse(session.expiresAt) <= now) {
+        delete this.data.sessions[id];
+        log.info(`Session ${id} expired`);
+        continue;
+      }
+
+      if (
+        session.status === "busy" &&
+        session.leaseExpiresAt &&
+        Date.parse(session.leaseExpiresAt) <= now
+      ) {
+        const overdue = Math.round(
+          (now - Date.parse(session.leaseExpiresAt)) / 1000,
+        );
+        log.warn(
+          `Reclaimed session ${id}: lease expired ${overdue}s ago (last heartbeat ${session.lastUsedAt}, collection ${session.collectionUrl ?? "unknown"})`,
+        );
+        reclaimed.push({ ...session });
+        session.status = "idle";
+        delete session.leaseExpiresAt;
+        delete session.leaseId;
+        delete session.priority;
+      }
+    }
+    for (const [id, reservation] of Object.entries(this.data.reservations)) {
+      if (Date.parse(reservation.expiresAt) <= now) {
+        delete this.data.reservations[id];
+        log.info(`Reservation ${id} expired unconfirmed`);
+      }
+    }
+
+    // A waiter that never collected its grant has died; its session lease
+    // or reservation expires on its own.
+    this.data.queue = this.queue.filter((waiter) => {
+      const deadline = Date.parse(waiter.deadline);
+      if (!waiter.grant && deadline <= now) {
+        log.info(`Waiter ${waiter.waiterId} timed out`);
+        return false;
+      }
+      return !(waiter.grant && deadline + LEASE_TTL_SECONDS * 1000 <= now);
+    });
+
+    this.dispatch(now, log);
+    return reclaimed;
+  }
+
+  /**
+   * Hand whatever is free to waiters: the interactive lane first, then
+   * batch, each head of lane first.
+   */
+  private dispatch(now: number, log: Logger): void {
+    for (const priority of POOL_PRIORITIES) {
+      for (const waiter of this.waiting(priority)) {
+        const grant = this.allocate(now, priority, log, waiter.collectionUrl);
+        if (!grant) break;
+        waiter.grant = grant;
+        log.info(
+          `Granted ${grant.type === "reused" ? `session ${grant.sessionId}` : "a fresh slot"} to ${priority} waiter ${waiter.waiterId}`,
+        );
+      }
+    }
+  }
+
+  /** Ungranted waiters in a lane, in FIFO order. */
+  private waiting(priority: PoolPriority): PoolWaiter[] {
+    return this.queue.filter((w) => !w.grant && w.priority === priority);
+  }
+
+  /**
+   * True once batch work holds every session (or reservation) that isn't
+   * reserved for interactive work.
+   */
+  private batchLimitReached(log: Logger): boolean {
+    const batchUsed =
+      Object.values(this.data.sessions).filter(
+        (s) => s.status === "busy" && s.priority === "batch",
+      ).length +
+      Object.values(this.data.reservations).filter(
+        (r) => r.priority === "batch",
+      ).length;
+    const batchLimit =
+      this.config.maxSessions - this.config.reservedInteractiveSessions;
+    if (batchUsed < batchLimit) {
+      return false;
+    }
+    log.info(
+      `Batch work holds ${batchUsed}/${batchLimit} sessions — the rest are reserved for interactive work`,
+    );
+    return true;
+  }
+
+  /**
+   * Reserve a slot if below MAX, otherwise take an idle session.
+   * Batch callers are refused once batch work holds every session that
+   * isn't reserved for interactive work. Returns null if nothing is
+   * available to the caller.
+   */
+  private allocate(
+    now: number,
+    priority: PoolPriority,
+    log: Logger,
+    collectionUrl?: string,
+  ): PoolGrant | null {
+    const used =
+      Object.keys(this.data.sessions).length +
+      Object.keys(this.data.reservations).length;
+    const max = this.config.maxSessions;
+    log.info(`Active sessions: ${used}/${max}`);
+
+    if (priority === "batch" && this.batchLimitReached(log)) {
+      return null;
+    }
+
+    // An idle session that last served this collection still has its tab
+    // open, so it beats both a fresh session and any other idle one.
+    const idleSessions = Object.values(this.data.sessions).filter(
+      (s) => s.status === "idle",
+    );
+    const warm = collectionUrl
+      ? idleSessions.find((s) => s.collectionUrl === collectionUrl)
+      : undefined;
+    const idle = warm ?? idleSessions[0];
+    const reuseIdle = (): PoolGrant => {
+      const leaseId = this.markBusy(idle!, now, priority, collectionUrl);
+      log.info(
+        `Reusing idle session ${idle!.sessionId}${warm ? " (collection already loaded)" : ""}`,
+      );
+      return { type: "reused", sessionId: idle!.sessionId, leaseId };
+    };
+
+    if (warm || (idle && this.config.preferIdle)) {
+      return reuseIdle();
+    }
+
+    // If room in the pool, hold a slot for a fresh session.
+    if (used < max) {
+      const reservationId = crypto.randomUUID();
+      this.data.reservations[reservationId] = {
+        reservationId,
+        expiresAt: new Date(
+          now + this.config.acquireTimeoutSeconds * 1000,
+        ).toISOString(),
+        priority,
+        collectionUrl,
+      };
+      log.info(`Pool has capacity, reserved slot ${reservationId}`);
+      return { type: "reserved", reservationId };
+    }
+
+    // Pool is full. Check if any session is idle.
+    return idle ? reuseIdle() : null;
+  }
+
+  /**
+   * 1-based position among waiters still waiting for a grant, counting
+   * everyone who will be served first (all higher-priority waiters).
+   */
+  private queuePosition(waiterId: string): number {
+    let ahead = 0;
+    for (const priority of POOL_PRIORITIES) {
+      const lane = this.waiting(priority);
+      const index = lane.findIndex((w) => w.waiterId === waiterId);
+      if (index !== -1) return ahead + index + 1;
+      ahead += lane.length;
+    }
+    return 0;
+  }
+
+  /**
+   * Decide how to serve an acquire request.
+   *
+   * 1. If requestedSessionId is tracked and idle, mark it busy and reuse
+   *    it — unless callers of the same or higher priority are queued,
+   *    or the caller is batch work at its limit, in which case the request
+   *    is served like any other.
+   * 2. If callers of the same or higher priority are already queued, don't
+   *    jump ahead of them.
+   * 3. If sessions + reservations are below maxSessions, reserve a slot.
+   * 4. If an idle session exists, mark it busy and reuse it. An idle
+   *    session that already has this collection loaded, or any idle
+   *    session with preferIdle, comes before step 3.
+   * 5. Otherwise join the queue if the caller will wait, or report full.
+   */
+  acquire(
+    request: PoolAcquireRequest,
+    now: number,
+    log: Logger = poolLog,
+  ): PoolDecision {
+    this.prune(now, log);
+    const priority = request.priority ?? "interactive";
+    const lanesAhead = POOL_PRIORITIES.slice(
+      0,
+      POOL_PRIORITIES.indexOf(priority) + 1,
+    );
+    const waiting = lanesAhead.some((lane) => this.waiting(lane).length > 0);
+
+    // Path 1: caller wants a specific session (pagination reuse). It is
+    // held to the same queue order and batch limit as any other request.
+    if (request.requestedSessionId) {
+      const session = this.data.sessions[request.requestedSessionId];
+      let refused: string;
+      if (!session) {
+        refused = "not found in pool";
+      } else if (session.status === "flagged") {
+        refused = `is flagged (${session.flaggedReason})`;
+      } else if (session.status === "busy") {
+        refused = "is busy";
+      } else if (waiting) {
+        refused = "is held back: callers are queued ahead";
+      } else if (priority === "batch" && this.batchLimitReached(log)) {
+        refused = "is held back: batch limit reached";
+      } else {
+        const leaseId = this.markBusy(
+          session,
+          now,
+          priority,
+          request.collectionUrl,
+        );
+        log.info(`Reusing requested session ${session.sessionId}`);
+        return { type: "reused", sessionId: session.sessionId, leaseId };
+      }
+
+      // Fall through and serve the request from the pool.
+      log.info(
+        `Requested session ${request.requestedSessionId} ${refused}, serving from the pool`,
+      );
+    }
+
+    if (!waiting) {
+      const grant = this.allocate(now, priority, log, request.collectionUrl);
+      if (grant) {
+        return grant;
+      }
+    }
+
+    const waitSeconds = Math.min(
+      request.waitSeconds ?? 0,
+      MAX_QUEUE_WAIT_SECONDS,
+    );
+    if (waitSeconds <= 0) {
+      log.info(`Pool full — all ${this.config.maxSessions} sessions are busy`);
+      return { type: "full", reason: "full" };
+    }
+
+    if (this.queue.filter((w) => !w.grant).length >= MAX_QUEUE_LENGTH) {
+      log.info(`Queue full — ${MAX_QUEUE_LENGTH} callers already waiting`);
+      return { type: "full", reason: "queue_full" };
+    }
+
+    const waiterId = crypto.randomUUID();
+    this.queue.push({
+      waiterId,
+      enqueuedAt: new Date(now).toISOString(),
+      deadline: new Date(now + waitSeconds * 1000).toISOString(),
+      priority,
+      collectionUrl: request.collectionUrl,
+    });
+    const position = this.queuePosition(waiterId);
+    log.info(
+      `Pool full — ${priority} waiter ${waiterId} queued at position ${position} for up to ${waitSeconds}s`,
+    );
+    return { type: "queued", waiterId, position };
+  }
+
+  /**
+   * Check on a queued caller. Returns its grant once it has one (and drops it
+   * from the queue), its current position while it waits, or full/timeout
+   * once its deadline has passed.
+   */
+  poll(waiterId: string, now: number, log: Logger = poolLog): PoolDecision {
+    this.prune(now, log);
+
+    const index = this.queue.findIndex((w) => w.waiterId === waiterId);
+    if (index === -1) {
+      return { type: "full", reason: "timeout" };
+    }
+
+    const waiter = this.queue[index];
+    if (waiter.grant) {
+      this.queue.splice(index, 1);
+      return waiter.grant;
+    }
+    return { type: "queued", waiterId, position: this.queuePosition(waiterId) };
+  }
+
+  /**
+   * Turn a reservation into a busy session once Cloudflare has acquired it,
+   * and return the holder's lease. A reservation that already expired is
+   * still honoured: the browser exists, so it has to be tracked.
+   */
+  confirm(
+    reservationId: string,
+    sessionId: string,
+    now: number,
+    log: Logger = poolLog,
+  ): string {
+    const reservation = this.data.reservations[reservationId];
+    delete this.data.reservations[reservationId];
+
+    const timestamp = new Date(now).toISOString();
+    const leaseId = crypto.randomUUID();
+    this.data.sessions[sessionId] = {
+      sessionId,
+      status: "busy",
+      createdAt: timestamp,
+      lastUsedAt: timestamp,
+      expiresAt: new Date(
+        now + this.config.sessionTtlSeconds * 1000,
+      ).toISOString(),
+      leaseExpiresAt: new Date(now + LEASE_TTL_SECONDS * 1000).toISOString(),
+      leaseId,
+      priority: reservation?.priority ?? "interactive",
+      collectionUrl: reservation?.collectionUrl,
+    };
+    log.info(`Acquired new session ${sessionId}`);
+    return leaseId;
+  }
+
+  /**
+   * Give up a reservation (acquire() failed).
+   */
+  cancel(reservationId: string, now: number, log: Logger = poolLog): void {
+    delete this.data.reservations[reservationId];
+    log.info(`Cancelled reservation ${reservationId}`);
+    this.dispatch(now, log);
+  }
+
+  /**
+   * Renew a busy session's lease. Returns false if the session is no longer
+   * busy under this lease (reclaimed, re-granted, removed or expired).
+   */
+  heartbeat(
+    sessionId: string,
+    leaseId: string,
+    now: number,
+    log: Logger = poolLog,
+  ): boolean {
+    this.prune(now, log);
+    const session = this.data.sessions[sessionId];
+    if (
+      !session ||
+      session.status !== "busy" ||
+      session.leaseId !== leaseId
+    ) {
+      return false;
+    }
+
+    this.touch(session, now);
+    session.leaseExpiresAt = new Date(
+      now + LEASE_TTL_SECONDS * 1000,
+    ).toISOString();
+    return true;
+  }
+
+  /**
+   * Mark a session idle. Returns false if it isn't tracked (may have
+   * expired) or is no longer held under this lease.
+   */
+  release(
+    sessionId: string,
+    leaseId: string,
+    now: number,
+    log: Logger = poolLog,
+  ): boolean {
+    this.prune(now, log);
+    const session = this.data.sessions[sessionId];
+    if (!session) {
+      log.info(
+        `Cannot release session ${sessionId} — not found in pool (may have expired)`,
+      );
+      return false;
+    }
+    if (session.status === "flagged") {
+      // Stays out of rotation until it expires or reconcile drops it.
+      return true;
+    }
+    if (session.leaseId !== leaseId) {
+      log.warn(
+        `Cannot release session ${sessionId} — lease ${leaseId} no longer holds it (reclaimed or granted to another caller)`,
+      );
+      return false;
+    }
+
+    session.status = "idle";
+    delete session.leaseExpiresAt;
+    delete session.leaseId;
+    delete session.priority;
+    this.touch(session, now);
+    log.info(`Released session ${sessionId} → idle`);
+    this.dispatch(now, log);
+    return true;
+  }
+
+  /**
+   * Forget a session entirely (e.g. connect() failed).
+   */
+  remove(sessionId: string, now: number, log: Logger = poolLog): void {
+    delete this.data.sessions[sessionId];
+    log.info(`Removed dead session ${sessionId} from pool`);
+    this.dispatch(now, log);
+  }
+
+  /**
+   * Take a session out of rotation, e.g. after Google served it a captcha.
+   * A flagged session is never reused (not even when requested by ID) but
+   * still counts against maxSessions, since its browser may be alive until
+   * Cloudflare closes it; it leaves the pool when it expires or when
+   * reconcile finds it gone.
+   */
+  flag(
+    sessionId: string,
+    reason: string,
+    now: number,
+    log: Logger = poolLog,
+  ): void {
+    const session = this.data.sessions[sessionId];
+    if (!session) {
+      return;
+    }
+    session.status = "flagged";
+    session.flaggedReason = reason;
+    delete session.leaseExpiresAt;
+    delete session.leaseId;
+    delete session.priority;
+    this.touch(session, now);
+    log.warn(`Flagged session ${sessionId}: ${reason}`);
+  }
+
+  list(now: number, log: Logger = poolLog): PooledSession[] {
+    this.prune(now, log);
+    return Object.values(this.data.sessions).map((s) => ({ ...s }));
+  }
+
+  /**
+   * Bring the pool in line with Cloudflare's live session list.
+   *
+   * Sessions started while a reservation is outstanding may belong to an
+   * acquire() that hasn't confirmed yet, so they are not adopted until the
+   * reservation window has passed.
+   */
+  reconcile(
+    live: LiveBrowserSession[],
+    now: number,
+    trigger: ReconcileReport["trigger"],
+    browserLimits?: BrowserLimits,
+    log: Logger = poolLog,
+  ): ReconcileReport {
+    this.prune(now, log);
+
+    const liveIds = new Set(live.map((l) => l.sessionId));
+    const removed: string[] = [];
+    const adopted: string[] = [];
+    const inUseElsewhere: string[] = [];
+
+    for (const id of Object.keys(this.data.sessions)) {
+      if (!liveIds.has(id)) {
+        delete this.data.sessions[id];
+        removed.push(id);
+        log.warn(`Reconcile: dropped ${id} — Cloudflare no longer has it`);
+      }
+    }
+
+    const pendingReservations = Object.keys(this.data.reservations).length > 0;
+    for (const session of live) {
+      if (this.data.sessions[session.sessionId]) continue;
+
+      if (session.connected) {
+        inUseElsewhere.push(session.sessionId);
+        continue;
+      }
+
+      const recent =
+        session.startTime !== undefined &&
+        now - session.startTime < this.config.acquireTimeoutSeconds * 1000;
+      if (pendingReservations && recent) continue;
+
+      const timestamp = new Date(now).toISOString();
+      this.data.sessions[session.sessionId] = {
+        sessionId: session.sessionId,
+        status: "idle",
+        createdAt:
+          session.startTime !== undefined
+            ? new Date(session.startTime).toISOString()
+            : timestamp,
+        lastUsedAt: timestamp,
+        expiresAt: new Date(
+          now + this.config.sessionTtlSeconds * 1000,
+        ).toISOString(),
+      };
+      adopted.push(session.sessionId);
+      log.warn(
+        `Reconcile: adopted orphaned session ${session.sessionId} as idle`,
+      );
+    }
+
+    const report: ReconcileReport = {
+      checkedAt: new Date(now).toISOString(),
+      trigger,
+      liveSessions: live.length,
+      removed,
+      adopted,
+      inUseElsewhere,
+      ...(browserLimits && { limits: browserLimits }),
+    };
+    this.data.lastReconcile = report;
+    this.dispatch(now, log);
+    return report;
+  }
+
+  recordReconcileError(
+    now: number,
+    trigger: ReconcileReport["trigger"],
+    error: string,
+  ): ReconcileReport {
+    const report: ReconcileReport = {
+      checkedAt: new Date(now).toISOString(),
+      trigger,
+      liveSessions: 0,
+      removed: [],
+      adopted: [],
+      inUseElsewhere: [],
+      error,
+    };
+    this.data.lastReconcile = report;
+    return report;
+  }
+
+  lastReconcile(): ReconcileReport | null {
+    return this.data.lastReconcile ?? null;
+  }
+
+  /** Lease a session to a new holder. Returns the new lease ID. */
+  private markBusy(
+    session: PooledSession,
+    now: number,
+    priority: PoolPriority,
+    collectionUrl?: string,
+  ): string {
+    session.status = "busy";
+    session.priority = priority;
+    if (collectionUrl) session.collectionUrl = collectionUrl;
+    this.touch(session, now);
+    session.leaseExpiresAt = new Date(
+      now + LEASE_TTL_SECONDS * 1000,
+    ).toISOString();
+    session.leaseId = crypto.randomUUID();
+    return session.leaseId;
+  }
+
+  private touch(session: PooledSession, now: number): void {
+    session.lastUsedAt = new Date(now).toISOString();
+    session.expiresAt = new Date(
+      now + this.config.sessionTtlSeconds * 1000,
+    ).toISOString();
+  }
+}
+
+/**
+ * Pool coordinator held in memory. JavaScript runs one call at a time, so
+ * each transition is atomic within the isolate — fine for tests and local
+ * development, but not shared between Worker isolates.
+ */
+export class InMemorySessionPool implements SessionPool {
+  private state: SessionPoolState;
+
+  constructor(
+    snapshot?: PoolSnapshot,
+    private clock: () => number = Date.now,
+    config?: SessionPoolConfig,
+  ) {
+    this.state = new SessionPoolState(snapshot, config);
+  }
+
+  async acquire(
+    request: PoolAcquireRequest,
+    context?: LogContext,
+  ): Promise<PoolDecision> {
+    return this.state.acquire(request, this.clock(), poolLog.with(context));
+  }
+
+  async poll(waiterId: string, context?: LogContext): Promise<PoolDecision> {
+    return this.state.poll(waiterId, this.clock(), poolLog.with(context));
+  }
+
+  async confirm(
+    reservationId: string,
+    sessionId: string,
+    context?: LogContext,
+  ): Promise<string> {
+    return this.state.confirm(
+      reservationId,
+      sessionId,
+      this.clock(),
+      poolLog.with(context),
+    );
+  }
+
+  async cancel(reservationId: string, context?: LogContext): Promise<void> {
+    this.state.cancel(reservationId, this.clock(), poolLog.with(context));
+  }
+
+  async heartbeat(
+    sessionId: string,
+    leaseId: string,
+    context?: LogContext,
+  ): Promise<boolean> {
+    return this.state.heartbeat(
+      sessionId,
+      leaseId,
+      this.clock(),
+      poolLog.with(context),
+    );
+  }
+
+  async release(
+    sessionId: string,
+    leaseId: string,
+    context?: LogContext,
+  ): Promise<boolean> {
+    return this.state.release(
+      sessionId,
+      leaseId,
+      this.clock(),
+      poolLog.with(context),
+    );
+  }
+
+  async remove(sessionId: string, context?: LogContext): Promise<void> {
+    this.state.remove(sessionId, this.clock(), poolLog.with(context));
+  }
+
+  async flag(
+    sessionId: string,
+    reason: string,
+    context?: LogContext,
+  ): Promise<void> {
+    this.state.flag(sessionId, reason, this.clock(), poolLog.with(context));
+  }
+
+  async list(context?: LogContext): Promise<PooledSession[]> {
+    return this.state.list(this.clock(), poolLog.with(context));
+  }
+
+  async reap(context?: LogContext): Promise<PooledSession[]> {
+    return this.state.prune(this.clock(), poolLog.with(context));
+  }
+
+  async reconcile(
+    live: LiveBrowserSession[],
+    trigger: ReconcileReport["trigger"],
+    browserLimits?: BrowserLimits,
+    context?: LogContext,
+  ): Promise<ReconcileReport> {
+    return this.state.reconcile(
+      live,
+      this.clock(),
+      trigger,
+      browserLimits,
+      poolLog.with(context),
+    );
+  }
+
+  async recordReconcileError(
+    trigger: ReconcileReport["trigger"],
+    error: string,
+  ): Promise<ReconcileReport> {
+    return this.state.recordReconcileError(this.clock(), trigger, error);
+  }
+
+  async lastReconcile(): Promise<ReconcileReport | null> {
+    return this.state.lastReconcile();
+  }
+}
+
+/**
+ * Validate a request's waitSeconds. Missing means don't wait (0).
+ * Returns null if it isn't a number between 0 and MAX_QUEUE_WAIT_SECONDS.
+ */
+export function normaliseWaitSeconds(value: unknown): number | null {
+  if (value === undefined) return 0;
+  if (
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    value < 0 ||
+    value > MAX_QUEUE_WAIT_SECONDS
+  ) {
+    return null;
+  }
+  return value;
 }
 
 /**
  * Acquire a browser session from the pool.
  *
- * Logic:
- * 1. If requestedSessionId provided, look it up and mark busy.
- * 2. Otherwise, list all active sessions.
- * 3. If fewer than MAX exist, acquire a fresh one from Cloudflare.
- * 4. If MAX exist and one is idle, reuse it.
- * 5. If MAX exist and all are busy, return null (pool full).
+ * Reuses a requested or idle session when the coordinator says so, otherwise
+ * acquires a fresh Cloudflare session into a reserved slot. With
+ * options.waitSeconds, a caller that finds the pool full waits in the queue
+ * until it is granted a session or slot.
  *
- * Returns null when the pool is full — caller should return HTTP 503.
+ * Returns ok: false when no session is available — caller should return
+ * HTTP 503.
  */
 export async function acquirePooledSession(
-  kv: KVNamespace,
+  pool: SessionPool,
   browserBinding: any,
   requestedSessionId?: string,
   collectionUrl?: string,
-): Promise<AcquireResult | null> {
-  const now = new Date().toISOString();
-
-  // Path 1: caller wants a specific session (pagination reuse).
-  if (requestedSessionId) {
-    const key = `${SESSION_PREFIX}${requestedSessionId}`;
-    const existing = await kv.get(key);
-
-    if (existing) {
-      const session: PooledSession = JSON.parse(existing);
-      session.status = "busy";
-      session.lastUsedAt = now;
-      if (collectionUrl) session.collectionUrl = collectionUrl;
-      await putSession(kv, session);
-
-      console.log(
-        `[SessionPool] Reusing requested session ${requestedSessionId}`,
+  options: AcquireOptions = {},
+): Promise<AcquireOutcome> {
+  const log = options.log ?? poolLog;
+  const startedAt = Date.now();
+  let decision = await pool.acquire(
+    {
+      requestedSessionId,
+      collectionUrl,
+      waitSeconds: options.waitSeconds,
+      priority: options.priority,
+    },
+    log.context,
+  );
+
+  let queue: QueueInfo | undefined;
+  if (decision.type === "queued") {
+    const position = decision.position;
+    while (decision.type === "queued") {
+      await new Promise((resolve) =>
+        setTimeout(resolve, QUEUE_POLL_INTERVAL_MS),
       );
-      return { sessionId: requestedSessionId, reused: true };
+      decision = await pool.poll(decision.waiterId, log.context);
     }
-
-    // Requested session not found (expired). Fall through to acquire a new one.
-    console.log(
-      `[SessionPool] Requested session ${requestedSessionId} not found in pool, will acquire new`,
+    queue = { position, waitedMs: Date.now() - startedAt };
+    log.info(
+      `Left queue after ${queue.waitedMs}ms (joined at position ${position}): ${decision.type}`,
     );
   }
 
-  // Path 2: list all active sessions to decide what to do.
-  const listResult = await kv.list<SessionMetadata>({
-    prefix: SESSION_PREFIX,
-  });
-  const activeKeys = listResult.keys;
-
-  console.log(
-    `[SessionPool] Active sessions: ${activeKeys.length}/${MAX_CONCURRENT_SESSIONS}`,
-  );
-
-  // If room in the pool, acquire a fresh session.
-  if (activeKeys.length < MAX_CONCURRENT_SESSIONS) {
-    console.log(`[SessionPool] Pool has capacity, acquiring new session`);
+  if (decision.type === "full") {
+    return { ok: false, reason: decision.reason, ...(queue && { queue }) };
+  }
 
-    const cfSession = await acquire(browserBinding);
-    const sessionId = cfSession.sessionId;
+  if (decision.type === "reused") {
+    return {
+      ok: true,
+      sessionId: decision.sessionId,
+      leaseId: decision.leaseId,
+      reused: true,
+      ...(queue && { queue }),
+    };
+  }
 
-    const session: PooledSession = {
+  try {
+    const { sessionId, retry } = await acquireWithRetry(
+      browserBinding,
+      options.keepAliveSeconds,
+      options.retryBudgetSeconds ?? 0,
+      log,
+    );
+    const leaseId = await pool.confirm(
+      decision.reservationId,
       sessionId,
-      status: "busy",
-      createdAt: now,
-      lastUsedAt: now,
-      collectionUrl,
+      log.context,
+    );
+    return {
+      ok: true,
+      sessionId,
+      leaseId,
+      reused: false,
+      ...(queue && { queue }),
+      acquire: retry,
     };
-    await putSession(kv, session);
-
-    console.log(`[SessionPool] Acquired new session ${sessionId}`);
-    return { sessionId, reused: false };
+  } catch (error) {
+    // Free the slot so a failed acquire doesn't shrink the pool.
+    await pool.cancel(decision.reservationId, log.context);
+    throw error;
   }
+}
 
-  // Pool is full. Check if any session is idle.
-  const idleKey = activeKeys.find((k) => k.metadata?.status === "idle");
+/**
+ * Call Cloudflare's acquire(), retrying rate-limit rejections with full-jitter
+ * exponential backoff (a random delay up to 1s, 2s, 4s, ... capped at 8s)
+ * while the next attempt still fits in the budget. Other errors are thrown
+ * as they are; running out of budget throws BrowserAcquireError.
+ */
+async function acquireWithRetry(
+  browserBinding: any,
+  keepAliveSeconds: number | undefined,
+  budgetSeconds: number,
+  log: Logger,
+): Promise<{ sessionId: string; retry: AcquireRetryInfo }> {
+  const startedAt = Date.now();
+  const failures: AcquireAttempt[] = [];
+  let backoffMs = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const cfSession = await acquire(
+        browserBinding,
+        keepAliveSeconds ? { keep_alive: keepAliveSeconds * 1000 } : undefined,
+      );
+      if (attempt > 1) {
+        log.info(
+          `Acquired ${cfSession.sessionId} on attempt ${attempt} after ${backoffMs}ms of backoff`,
+        );
+      }
+      return {
+        sessionId: cfSession.sessionId,
+        retry: { attempts: attempt, backoffMs },
+      };
+    } catch (error) {
+      if (!isAcquireRateLimit(error)) {
+        throw error;
+      }
+
+      const msg = error instanceof Error ? error.message : String(error);
+      const ceiling = Math.min(
+        ACQUIRE_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+        ACQUIRE_RETRY_MAX_DELAY_MS,
+      );
+      const delayMs = Math.round(Math.random() * ceiling);
+      const elapsed = Date.now() - startedAt;
 
-  if (idleKey) {
-    const sessionId = idleKey.name.replace(SESSION_PREFIX, "");
-    const existing = await kv.get(idleKey.name);
+      if (elapsed + delayMs > budgetSeconds * 1000) {
+        failures.push({ attempt, error: msg, delayMs: 0 });
+        log.error(
+          `acquire() still rate limited after ${attempt} attempt(s) in ${elapsed}ms — giving up`,
+        );
+        throw new BrowserAcquireError(failures);
+      }
 
-    if (existing) {
-      const session: PooledSession = JSON.parse(existing);
-      session.status = "busy";
-      session.lastUsedAt = now;
-      if (collectionUrl) session.collectionUrl = collectionUrl;
-      await putSession(kv, session);
+      failures.push({ attempt, error: msg, delayMs });
+      log.warn(
+        `acquire() rate limited (attempt ${attempt}), retrying in ${delayMs}ms`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      backoffMs += delayMs;
+    }
+  }
+}
 
-      console.log(`[SessionPool] Reusing idle session ${sessionId}`);
-      return { sessionId, reused: true };
+/**
+ * Keep a busy session's lease alive while the caller works with it.
+ * Returns a function that stops the heartbeat; call it before releasing.
+ */
+export function startLeaseHeartbeat(
+  pool: SessionPool,
+  sessionId: string,
+  leaseId: string,
+  log: Logger = poolLog,
+): () => void {
+  const timer = setInterval(async () => {
+    try {
+      if (!(await pool.heartbeat(sessionId, leaseId, log.context))) {
+        log.warn(
+          `Heartbeat for ${sessionId} found no busy lease — session was reclaimed or removed`,
+        );
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      log.warn(`Heartbeat for ${sessionId} failed: ${msg}`);
     }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Reclaim expired leases. Run from the scheduled handler so a crashed
+ * request's session is freed even when nothing else touches the pool.
+ */
+export async function reapSessionPool(
+  pool: SessionPool,
+  log: Logger = poolLog,
+): Promise<number> {
+  const reclaimed = await pool.reap(log.context);
+  if (reclaimed.length > 0) {
+    log.warn(
+      `Reaper reclaimed ${reclaimed.length} session(s) with expired leases`,
+    );
   }
+  return reclaimed.length;
+}
+
+/**
+ * Compare the pool with the browser binding's live sessions and limits, and
+ * fix up the pool (see SessionPoolState.reconcile). A failure to reach the
+ * binding is recorded in the report rather than thrown.
+ */
+export async function reconcileSessionPool(
+  pool: SessionPool,
+  browserBinding: any,
+  trigger: ReconcileReport["trigger"],
+  log: Logger = poolLog,
+): Promise<ReconcileReport> {
+  try {
+    const [active, accountLimits] = await Promise.all([
+      sessions(browserBinding),
+      limits(browserBinding),
+    ]);
 
-  // All sessions are busy.
-  console.log(`[SessionPool] Pool full — all ${MAX_CONCURRENT_SESSIONS} sessions are busy`);
-  return null;
+    const live: LiveBrowserSession[] = active.map((s: any) => ({
+      sessionId: s.sessionId,
+      startTime: typeof s.startTime === "number" ? s.startTime : undefined,
+      connected: Boolean(s.connectionId),
+    }));
+
+    const report = await pool.reconcile(
+      live,
+      trigger,
+      {
+        activeSessions: accountLimits.activeSessions.length,
+        maxConcurrentSessions: accountLimits.maxConcurrentSessions,
+        allowedBrowserAcquisitions: accountLimits.allowedBrowserAcquisitions,
+        timeUntilNextAllowedBrowserAcquisition:
+          accountLimits.timeUntilNextAllowedBrowserAcquisition,
+      },
+      log.context,
+    );
+
+    log.info(
+      `Reconciled (${trigger}): ${report.liveSessions} live, ${report.removed.length} dropped, ${report.adopted.length} adopted, ${report.inUseElsewhere.length} in use elsewhere`,
+    );
+    return report;
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log.error(`Reconcile (${trigger}) failed: ${msg}`);
+    return pool.recordReconcileError(trigger, msg);
+  }
 }
 
 /**
@@ -164,25 +1474,12 @@ export async function acquirePooledSession(
  * Called after extraction completes so the session can be reused.
  */
 export async function releasePooledSession(
-  kv: KVNamespace,
+  pool: SessionPool,
   sessionId: string,
+  leaseId: string,
+  log: Logger = poolLog,
 ): Promise<void> {
-  const key = `${SESSION_PREFIX}${sessionId}`;
-  const existing = await kv.get(key);
-
-  if (!existing) {
-    console.log(
-      `[SessionPool] Cannot release session ${sessionId} — not found in pool (may have expired)`,
-    );
-    return;
-  }
-
-  const session: PooledSession = JSON.parse(existing);
-  session.status = "idle";
-  session.lastUsedAt = new Date().toISOString();
-  await putSession(kv, session);
-
-  console.log(`[SessionPool] Released session ${sessionId} → idle`);
+  await pool.release(sessionId, leaseId, log.context);
 }
 
 /**
@@ -190,12 +1487,24 @@ export async function releasePooledSession(
  * Called when a session is known to be dead (e.g. connect() failed).
  */
 export async function removePooledSession(
-  kv: KVNamespace,
+  pool: SessionPool,
   sessionId: string,
+  log: Logger = poolLog,
 ): Promise<void> {
-  const key = `${SESSION_PREFIX}${sessionId}`;
-  await kv.delete(key);
-  console.log(`[SessionPool] Removed dead session ${sessionId} from pool`);
+  await pool.remove(sessionId, log.context);
+}
+
+/**
+ * Flag a session so the pool stops handing it out.
+ * Called when Google serves the session a captcha or block page.
+ */
+export async function flagPooledSession(
+  pool: SessionPool,
+  sessionId: string,
+  reason: string,
+  log: Logger = poolLog,
+): Promise<void> {
+  await pool.flag(sessionId, reason, log.context);
 }
 
 /**
@@ -203,20 +1512,8 @@ export async function removePooledSession(
  * Used by the /sessions debug endpoint.
  */
 export async function listPooledSessions(
-  kv: KVNamespace,
+  pool: SessionPool,
+  log: Logger = poolLog,
 ): Promise<PooledSession[]> {
-  const listResult = await kv.list<SessionMetadata>({
-    prefix: SESSION_PREFIX,
-  });
-
-  const sessions: PooledSession[] = [];
-
-  for (const key of listResult.keys) {
-    const value = await kv.get(key.name);
-    if (value) {
-      sessions.push(JSON.parse(value));
-    }
-  }
-
-  return sessions;
+  return pool.list(log.context);
 }
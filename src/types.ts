@@ -0,0 +1,91 @@
+/**
+ * Shared Types
+ *
+ * Request and response shapes for the /data-import endpoints, shared between
+ * the Worker handlers and the export renderers.
+ */
+
+import { BlobWarning } from "./blob-parser";
+import { GoogleMapsUrlKind } from "./google-maps-url";
+import { ErrorCode } from "./errors";
+import { ExtractionQuality } from "./extraction-quality";
+import { ResourceBlockingStats } from "./resource-blocking";
+import { SelectorUsage } from "./selectors";
+import { AcquireRetryInfo, PoolPriority, QueueInfo } from "./session-pool";
+
+/** Output formats supported by /data-import. */
+export type ExportFormat = "json" | "csv" | "geojson" | "kml" | "gpx";
+
+/**
+ * How /data-import extracts a page: "browser" always uses a pooled browser
+ * session, "fast" parses fetched HTML first and falls back to the browser.
+ */
+export type ImportMode = "browser" | "fast";
+
+export interface DataImportRequest {
+  url: string;
+  sessionId?: string;
+  pageOffset?: number;
+  debug?: boolean;
+  callbackUrl?: string; // When set, run as a background job and POST each page here.
+  format?: ExportFormat; // Response format; overrides the Accept header.
+  mode?: ImportMode; // "fast" tries a plain fetch before using the browser pool.
+  locale?: string; // BCP 47 tag, e.g. "de"; sets hl and Accept-Language.
+  waitSeconds?: number; // Wait up to this long for a browser session if the pool is full.
+  priority?: PoolPriority; // Session pool class; defaults by route (see poolPriorityFor).
+  pageCount?: number; // Fetch this many consecutive pages in one call (browser only).
+  concurrency?: number; // Tabs used to fetch them in parallel.
+}
+
+export interface PlaceCard {
+  name: string;
+  url: string;
+  rating?: number;
+  reviewCount?: number;
+  note?: string;
+  savedAt?: number;   // Unix timestamp (seconds) when place was saved to the collection.
+  kgId?: string;      // Google Knowledge Graph ID, e.g. "/g/11ltqq0zv9".
+  photoUrl?: string;  // First photo thumbnail URL from the collection blob.
+}
+
+export interface PageInfo {
+  startIndex: number;
+  endIndex: number;
+  totalCount: number;
+  hasNextPage: boolean;
+}
+
+export interface CollectionMeta {
+  collectionId?: string;
+  collectionName?: string;
+  totalCount?: number;
+}
+
+export interface DataImportResponse {
+  success: boolean;
+  collectionUrl: string;
+  requestedUrl?: string; // Original short link, when collectionUrl was resolved from one.
+  urlKind?: GoogleMapsUrlKind; // collection, placelist, place or map.
+  sessionId: string;
+  places: PlaceCard[];
+  pageInfo: PageInfo;
+  pages?: PageInfo[];           // Per-page ranges, in order, when pageCount fetched more than one page.
+  collectionMeta?: CollectionMeta;
+  source?: "browser" | "fetch"; // Which extraction path produced this page.
+  warnings?: BlobWarning[];     // Blob paths that came back empty (likely layout change).
+  quality?: ExtractionQuality;  // DOM vs blob agreement, for browser extraction.
+  selectors?: SelectorUsage;    // Registry version used and which fallbacks matched.
+  queue?: QueueInfo;            // Queue position and wait, when the request waited for a session.
+  acquire?: AcquireRetryInfo;   // acquire() attempts and backoff, when a fresh session was started.
+  warmTab?: boolean;            // The collection was already open in the session's tab.
+  durationSeconds: number;
+  error?: string;
+  code?: ErrorCode;             // Set with error; see errors.ts.
+  retryable?: boolean;
+  retryAfterSeconds?: number;
+  debug?: {
+    htmlContent: string;
+    domStructure: string;
+  };
+  resourceBlocking?: ResourceBlockingStats; // Requests and bytes saved, in debug mode.
+}
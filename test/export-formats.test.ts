@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractCoordinatesFromUrl,
+  isExportFormat,
+  negotiateExportFormat,
+  renderExport,
+} from "../src/export-formats";
+import { DataImportResponse, PlaceCard } from "../src/types";
+
+const PLACE_URL =
+  "https://www.google.com/maps/place/Cafe/@52.52,13.40,17z" +
+  "/data=!3d52.5163!4d13.3777";
+
+function response(places: PlaceCard[]): DataImportResponse {
+  return {
+    success: true,
+    collectionUrl: "https://www.google.com/collections/s/list/abc",
+    sessionId: "session-1",
+    places,
+    pageInfo: {
+      startIndex: 201,
+      endIndex: 400,
+      totalCount: 1043,
+      hasNextPage: true,
+    },
+    collectionMeta: { collectionId: "abc" },
+    durationSeconds: 1,
+  };
+}
+
+/** The CSV data rows, without the header. */
+async function csvRows(places: PlaceCard[]): Promise<string[]> {
+  const text = await renderExport(response(places), "csv").text();
+  return text.trimEnd().split("\r\n").slice(1);
+}
+
+describe("isExportFormat", () => {
+  it.each(["json", "csv", "geojson", "kml", "gpx"])("accepts %s", (name) => {
+    expect(isExportFormat(name)).toBe(true);
+  });
+
+  it.each(["xml", "CSV", "toString", "constructor", "__proto__", 1, null])(
+    "rejects %s",
+    (value) => {
+      expect(isExportFormat(value)).toBe(false);
+    },
+  );
+});
+
+describe("negotiateExportFormat", () => {
+  it("prefers the format field over the Accept header", () => {
+    expect(negotiateExportFormat("kml", "text/csv")).toBe("kml");
+  });
+
+  it("uses the first Accept media type it recognises", () => {
+    expect(
+      negotiateExportFormat(
+        undefined,
+        "text/html, application/vnd.geo+json;q=0.9, text/csv",
+      ),
+    ).toBe("geojson");
+    expect(negotiateExportFormat(undefined, "Text/CSV; charset=utf-8")).toBe(
+      "csv",
+    );
+  });
+
+  it("falls back to JSON", () => {
+    expect(negotiateExportFormat(undefined, null)).toBe("json");
+    expect(negotiateExportFormat(undefined, "*/*")).toBe("json");
+    expect(negotiateExportFormat("toString", "constructor")).toBe("json");
+  });
+});
+
+describe("extractCoordinatesFromUrl", () => {
+  it("prefers the place's own !3d!4d location over the viewport", () => {
+    expect(extractCoordinatesFromUrl(PLACE_URL)).toEqual({
+      lat: 52.5163,
+      lng: 13.3777,
+    });
+  });
+
+  it("falls back to the @lat,lng viewport", () => {
+    expect(
+      extractCoordinatesFromUrl(
+        "https://www.google.com/maps/place/Cafe/@-33.86,151.21,17z",
+      ),
+    ).toEqual({ lat: -33.86, lng: 151.21 });
+  });
+
+  it("returns null without coordinates or when they're out of range", () => {
+    expect(
+      extractCoordinatesFromUrl("https://www.google.com/maps/place/Cafe"),
+    ).toBeNull();
+    expect(
+      extractCoordinatesFromUrl("https://www.google.com/maps/@95.0,10.0,3z"),
+    ).toBeNull();
+  });
+});
+
+describe("renderExport as CSV", () => {
+  it.each(["=HYPERLINK(\"x\")", "+1", "-2+3", "@SUM(A1)", "\tcmd"])(
+    "neutralises the formula-like value %j",
+    async (note) => {
+      const [row] = await csvRows([
+        { name: "Cafe", url: PLACE_URL, note },
+      ]);
+      expect(row).toContain(`'${note.replace(/"/g, '""')}`);
+      expect(row).not.toMatch(/,[=+\-@\t]/);
+    },
+  );
+
+  it("leaves numbers alone, including negative coordinates", async () => {
+    const url = "https://www.google.com/maps/place/Opera/@-33.8568,151.2,17z";
+    const [row] = await csvRows([{ name: "Opera", url, rating: 4.7 }]);
+    expect(row).toBe(`Opera,"${url}",-33.8568,151.2,4.7,,,,,`);
+  });
+
+  it("quotes commas, quotes and line breaks", async () => {
+    const [row] = await csvRows([
+      { name: 'Bar "Zur Post", Mitte', url: PLACE_URL, note: "a\nb" },
+    ]);
+    expect(row.startsWith('"Bar ""Zur Post"", Mitte",')).toBe(true);
+    expect(row).toContain('"a\nb"');
+  });
+
+  it("carries paging info in headers", () => {
+    const res = renderExport(response([]), "csv");
+    expect(res.headers.get("Content-Type")).toBe("text/csv; charset=utf-8");
+    expect(res.headers.get("X-Session-Id")).toBe("session-1");
+    expect(res.headers.get("X-Page-Start")).toBe("201");
+    expect(res.headers.get("X-Page-End")).toBe("400");
+    expect(res.headers.get("X-Total-Count")).toBe("1043");
+    expect(res.headers.get("X-Has-Next-Page")).toBe("true");
+    expect(res.headers.get("Content-Disposition")).toBe(
+      'inline; filename="abc-201.csv"',
+    );
+  });
+});
+
+describe("renderExport", () => {
+  it("keeps places without coordinates in GeoJSON only", async () => {
+    const places = [
+      { name: "Located", url: PLACE_URL },
+      { name: "Nowhere", url: "https://www.google.com/maps/place/Nowhere" },
+    ];
+
+    const gpx = await renderExport(response(places), "gpx").text();
+    expect(gpx).toContain('<wpt lat="52.5163" lon="13.3777">');
+    expect(gpx).not.toContain("Nowhere");
+
+    const geojson = JSON.parse(
+      await renderExport(response(places), "geojson").text(),
+    );
+    expect(
+      geojson.features.map((f: { geometry: unknown }) => f.geometry),
+    ).toEqual([{ type: "Point", coordinates: [13.3777, 52.5163] }, null]);
+  });
+
+  it("escapes XML in KML", async () => {
+    const kml = await renderExport(
+      response([{ name: "Fish & <Chips>", url: PLACE_URL }]),
+      "kml",
+    ).text();
+    expect(kml).toContain("<name>Fish &amp; &lt;Chips&gt;</name>");
+  });
+});
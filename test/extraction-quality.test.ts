@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_DRIFT_THRESHOLD,
+  driftThreshold,
+  measureExtractionQuality,
+  mergeExtractionQuality,
+} from "../src/extraction-quality";
+import { PlaceCard } from "../src/types";
+
+beforeEach(() => {
+  for (const method of ["log", "info", "warn", "error"] as const) {
+    vi.spyOn(console, method).mockImplementation(() => {});
+  }
+});
+
+/** A card with every quality field set. */
+function card(i: number, overrides: Partial<PlaceCard> = {}): PlaceCard {
+  return {
+    name: `Place ${i}`,
+    url: `https://www.google.com/maps/place/p${i}`,
+    rating: 4.5,
+    reviewCount: 10,
+    savedAt: 1760000000,
+    kgId: `/g/${i}`,
+    photoUrl: `https://lh3.googleusercontent.com/p${i}`,
+    ...overrides,
+  };
+}
+
+function cards(count: number, overrides: Partial<PlaceCard> = {}) {
+  return Array.from({ length: count }, (_, i) => card(i, overrides));
+}
+
+describe("measureExtractionQuality", () => {
+  it("raises no signals when the DOM and blob agree", () => {
+    const quality = measureExtractionQuality({
+      places: cards(20),
+      blobCount: 20,
+      matched: 20,
+      domTotal: 120,
+      blobTotal: 120,
+    });
+    expect(quality).toEqual({
+      domCount: 20,
+      blobCount: 20,
+      matched: 20,
+      matchRate: 1,
+      missingFields: {},
+      domTotal: 120,
+      blobTotal: 120,
+      totalDisagreement: 0,
+      driftSignals: [],
+    });
+  });
+
+  it("flags DOM cards without a blob", () => {
+    const quality = measureExtractionQuality({
+      places: cards(5),
+      blobCount: 0,
+      matched: 0,
+      domTotal: 5,
+    });
+    // Without blob records the match rate isn't a signal of its own.
+    expect(quality.driftSignals).toEqual(["blob_missing"]);
+    expect(quality.matchRate).toBe(0);
+    expect(quality.blobTotal).toBeNull();
+    expect(quality.totalDisagreement).toBeNull();
+  });
+
+  it("flags blob records without DOM cards", () => {
+    const quality = measureExtractionQuality({
+      places: [],
+      blobCount: 20,
+      matched: 0,
+      domTotal: 0,
+      blobTotal: 20,
+    });
+    expect(quality.driftSignals).toEqual(["dom_missing"]);
+    expect(quality.matchRate).toBeNull();
+    expect(quality.domTotal).toBeNull();
+  });
+
+  it("flags a match rate below LOW_MATCH_RATE", () => {
+    const measure = (matched: number) =>
+      measureExtractionQuality({
+        places: cards(20),
+        blobCount: 20,
+        matched,
+        domTotal: 20,
+      });
+    expect(measure(18).driftSignals).toEqual([]);
+    expect(measure(17).matchRate).toBe(0.85);
+    expect(measure(17).driftSignals).toEqual(["low_match_rate"]);
+  });
+
+  it("flags disagreeing totals", () => {
+    const quality = measureExtractionQuality({
+      places: cards(20),
+      blobCount: 20,
+      matched: 20,
+      domTotal: 120,
+      blobTotal: 118,
+    });
+    expect(quality.totalDisagreement).toBe(-2);
+    expect(quality.driftSignals).toEqual(["total_mismatch"]);
+  });
+
+  it("counts missing fields and flags a field missing from every card", () => {
+    const places = cards(10, { kgId: undefined });
+    places[0].rating = undefined;
+    const quality = measureExtractionQuality({
+      places,
+      blobCount: 10,
+      matched: 10,
+      domTotal: 10,
+    });
+    expect(quality.missingFields).toEqual({ rating: 1, kgId: 10 });
+    expect(quality.driftSignals).toEqual(["field_missing"]);
+  });
+
+  it("ignores a field missing from every card on small pages", () => {
+    const quality = measureExtractionQuality({
+      places: cards(9, { photoUrl: undefined }),
+      blobCount: 9,
+      matched: 9,
+      domTotal: 9,
+    });
+    expect(quality.missingFields).toEqual({ photoUrl: 9 });
+    expect(quality.driftSignals).toEqual([]);
+  });
+});
+
+describe("mergeExtractionQuality", () => {
+  it("sums counts and keeps the first page's totals", () => {
+    const first = measureExtractionQuality({
+      places: cards(20, { savedAt: undefined }),
+      blobCount: 20,
+      matched: 20,
+      domTotal: 30,
+      blobTotal: 30,
+    });
+    const second = measureExtractionQuality({
+      places: cards(10),
+      blobCount: 10,
+      matched: 5,
+      domTotal: 0,
+    });
+    const merged = mergeExtractionQuality([first, second]);
+    expect(merged).toMatchObject({
+      domCount: 30,
+      blobCount: 30,
+      matched: 25,
+      matchRate: 0.833,
+      missingFields: { savedAt: 20 },
+      domTotal: 30,
+      blobTotal: 30,
+      totalDisagreement: 0,
+    });
+    expect(merged.driftSignals).toEqual(["field_missing", "low_match_rate"]);
+  });
+});
+
+describe("driftThreshold", () => {
+  it("defaults when unset or blank", () => {
+    expect(driftThreshold({})).toBe(DEFAULT_DRIFT_THRESHOLD);
+    expect(driftThreshold({ EXTRACTION_DRIFT_THRESHOLD: " " })).toBe(
+      DEFAULT_DRIFT_THRESHOLD,
+    );
+  });
+
+  it("accepts shares up to 1", () => {
+    expect(driftThreshold({ EXTRACTION_DRIFT_THRESHOLD: "0.25" })).toBe(0.25);
+    expect(driftThreshold({ EXTRACTION_DRIFT_THRESHOLD: "1" })).toBe(1);
+  });
+
+  it.each(["0", "-0.5", "1.5", "half"])("ignores %s", (value) => {
+    expect(driftThreshold({ EXTRACTION_DRIFT_THRESHOLD: value })).toBe(
+      DEFAULT_DRIFT_THRESHOLD,
+    );
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  canonicaliseGoogleMapsUrl,
+  classifyGoogleMapsUrl,
+  isGoogleHost,
+  resolveShortLink,
+} from "../src/google-maps-url";
+
+const COLLECTION = "https://www.google.com/collections/s/list/abc/def";
+
+beforeEach(() => {
+  for (const method of ["log", "info", "warn", "error"] as const) {
+    vi.spyOn(console, method).mockImplementation(() => {});
+  }
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+/** Stub fetch with one redirect (or final response) per call. */
+function stubRedirects(...hops: Array<string | number>) {
+  const fetchMock = vi.fn();
+  for (const hop of hops) {
+    fetchMock.mockResolvedValueOnce(
+      typeof hop === "number"
+        ? new Response(null, { status: hop })
+        : new Response(null, { status: 302, headers: { Location: hop } }),
+    );
+  }
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("isGoogleHost", () => {
+  it.each([
+    "google.com",
+    "www.google.co.uk",
+    "maps.google.de",
+    "WWW.GOOGLE.FR",
+  ])("accepts %s", (host) => {
+    expect(isGoogleHost(host)).toBe(true);
+  });
+
+  it.each([
+    "google.com.evil.net",
+    "evilgoogle.com",
+    "google.evil",
+    "mail.google.com",
+    "www.maps.google.com",
+    "maps.app.goo.gl",
+  ])("rejects %s", (host) => {
+    expect(isGoogleHost(host)).toBe(false);
+  });
+});
+
+describe("classifyGoogleMapsUrl", () => {
+  it.each([
+    [COLLECTION, "collection"],
+    ["https://www.google.com/maps/placelists/list/xyz", "placelist"],
+    ["https://google.com/placelists/list/xyz", "placelist"],
+    ["https://maps.google.de/maps/place/Cafe/@52.5,13.4,17z", "place"],
+    ["https://www.google.com/maps/search/coffee", "map"],
+    ["https://maps.app.goo.gl/AbCdEf", "shortlink"],
+  ])("classifies %s as %s", (url, kind) => {
+    expect(classifyGoogleMapsUrl(url)).toMatchObject({ valid: true, kind });
+  });
+
+  it.each([
+    ["not a url", "not a valid URL"],
+    ["http://www.google.com/maps/place/x", "must use https"],
+    ["https://user:pw@www.google.com/maps/", "must not include credentials"],
+    ["https://www.google.com:8443/maps/", "must not include credentials"],
+    ["https://www.google.com.evil.net/maps/", "host is not a Google domain"],
+    ["https://accounts.google.com/maps/", "host is not a Google domain"],
+    ["https://www.google.com/search?q=maps", "path is not a Google Maps page"],
+  ])("rejects %s", (url, reason) => {
+    const check = classifyGoogleMapsUrl(url);
+    expect(check.valid).toBe(false);
+    expect(check).toMatchObject({ reason: expect.stringContaining(reason) });
+  });
+});
+
+describe("canonicaliseGoogleMapsUrl", () => {
+  it("strips share-sheet and tracking parameters and the hash", () => {
+    expect(
+      canonicaliseGoogleMapsUrl(
+        `${COLLECTION}?g_st=ic&utm_source=share&hl=de#top`,
+      ),
+    ).toBe(`${COLLECTION}?hl=de`);
+  });
+});
+
+describe("resolveShortLink", () => {
+  it("follows short-link hops to the Google Maps URL", async () => {
+    const fetchMock = stubRedirects(
+      "https://maps.app.goo.gl/second",
+      `${COLLECTION}?g_st=ic`,
+    );
+
+    expect(await resolveShortLink("https://maps.app.goo.gl/first")).toEqual({
+      ok: true,
+      url: COLLECTION,
+      hops: 2,
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://maps.app.goo.gl/first",
+      expect.objectContaining({ redirect: "manual" }),
+    );
+  });
+
+  it("rejects a redirect outside Google Maps", async () => {
+    stubRedirects("https://evil.example/maps/place/x");
+
+    expect(await resolveShortLink("https://maps.app.goo.gl/x")).toEqual({
+      ok: false,
+      error: "Short link redirected outside Google Maps",
+    });
+  });
+
+  it("rejects a redirect to another Google page", async () => {
+    stubRedirects("https://consent.google.com/ml?continue=x");
+
+    expect(await resolveShortLink("https://maps.app.goo.gl/x")).toMatchObject({
+      ok: false,
+    });
+  });
+
+  it("fails when the link doesn't redirect", async () => {
+    stubRedirects(404);
+
+    expect(await resolveShortLink("https://maps.app.goo.gl/x")).toEqual({
+      ok: false,
+      error: "Short link did not redirect",
+    });
+  });
+
+  it("gives up after too many hops", async () => {
+    stubRedirects(
+      ...Array.from({ length: 6 }, (_, i) => `https://maps.app.goo.gl/${i}`),
+    );
+
+    expect(await resolveShortLink("https://maps.app.goo.gl/x")).toEqual({
+      ok: false,
+      error: "Short link redirected too many times",
+    });
+  });
+
+  it("fails when the fetch throws", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("timeout")));
+
+    expect(await resolveShortLink("https://maps.app.goo.gl/x")).toEqual({
+      ok: false,
+      error: "Short link could not be resolved",
+    });
+  });
+});
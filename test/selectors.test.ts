@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SELECTORS,
+  fallbacksUsed,
+  mergeSelectorMatches,
+  validateSelectorChanges,
+} from "../src/selectors";
+
+describe("validateSelectorChanges", () => {
+  it("accepts the built-in selectors", () => {
+    expect(validateSelectorChanges(DEFAULT_SELECTORS)).toBeNull();
+  });
+
+  it.each([
+    "a[href*='/maps/place/']",
+    "div.card > span:first-child",
+    "li:nth-child(2n + 1) a",
+    "div:not(.ad, [hidden]) ~ p",
+    "div:has(> img) [aria-label=\"Next page\" i]",
+    "#main .x\\:y",
+  ])("accepts %s", (selector) => {
+    expect(validateSelectorChanges({ note: [selector] })).toBeNull();
+  });
+
+  it("rejects anything but an object of fields", () => {
+    for (const changes of [null, "note", 3]) {
+      expect(validateSelectorChanges(changes)).toBe(
+        "selectors must be an object of field: [selector, ...]",
+      );
+    }
+    expect(validateSelectorChanges({})).toBe(
+      "selectors must change at least one field",
+    );
+  });
+
+  it("rejects unknown fields, including inherited names", () => {
+    for (const field of ["placeLinks", "constructor", "toString"]) {
+      expect(validateSelectorChanges({ [field]: ["a"] })).toMatch(
+        new RegExp(`^Unknown field ${field}; expected one of: placeLink,`),
+      );
+    }
+  });
+
+  it.each([
+    ["a string", "a"],
+    ["an empty chain", []],
+    ["a blank selector", ["a", " "]],
+    ["a non-string selector", ["a", 1]],
+    ["a chain that is too long", Array(11).fill("a")],
+  ])("rejects %s", (_, chain) => {
+    expect(validateSelectorChanges({ note: chain })).toBe(
+      "note must be an array of 1 to 10 non-empty selectors",
+    );
+  });
+
+  it.each([
+    ["div >", "Expected a selector at position 6"],
+    ["a::before", "Pseudo-elements never match at position 4"],
+    [":hovr", "Unknown :hovr at position 6"],
+    [":nth-child", ":nth-child needs an argument at position 11"],
+    [":constructor(b)", "Unknown :constructor() at position 14"],
+    [":not()", "Expected a selector at position 6"],
+    ["[href", 'Expected "]" at position 6'],
+    ["a)", 'Unexpected ")" at position 2'],
+  ])("rejects the selector %s", (selector, error) => {
+    expect(validateSelectorChanges({ note: ["a", selector] })).toBe(
+      `note: "${selector}" is not a valid selector (${error})`,
+    );
+  });
+});
+
+describe("mergeSelectorMatches", () => {
+  it("keeps the furthest fallback any page needed", () => {
+    expect(
+      mergeSelectorMatches([
+        { placeLink: 0, note: 1, nextButton: null },
+        { placeLink: 2, note: 0 },
+        { placeLink: 1, cardContainer: 0 },
+      ]),
+    ).toEqual({ placeLink: 2, note: 1, nextButton: null, cardContainer: 0 });
+  });
+
+  it("only reports null when no page matched", () => {
+    expect(
+      mergeSelectorMatches([{ note: null }, { note: 3 }, { note: null }]),
+    ).toEqual({ note: 3 });
+    expect(mergeSelectorMatches([{ note: null }, { note: null }])).toEqual({
+      note: null,
+    });
+  });
+
+  it("is empty without pages", () => {
+    expect(mergeSelectorMatches([])).toEqual({});
+  });
+});
+
+describe("fallbacksUsed", () => {
+  it("keeps only the fields that matched a fallback", () => {
+    expect(
+      fallbacksUsed({ placeLink: 0, note: 2, nextButton: null, placeName: 1 }),
+    ).toEqual({ note: 2, placeName: 1 });
+  });
+});
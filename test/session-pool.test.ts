@@ -0,0 +1,227 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  InMemorySessionPool,
+  LEASE_TTL_SECONDS,
+  SessionPool,
+  sessionPoolConfig,
+} from "../src/session-pool";
+
+// The in-memory pool never talks to the browser binding.
+vi.mock("@cloudflare/playwright", () => ({
+  acquire: vi.fn(),
+  limits: vi.fn(),
+  sessions: vi.fn(),
+}));
+
+const START = Date.parse("2026-10-19T09:00:00.000Z");
+
+let now: number;
+let pool: InMemorySessionPool;
+
+beforeEach(() => {
+  for (const method of ["log", "info", "warn", "error"] as const) {
+    vi.spyOn(console, method).mockImplementation(() => {});
+  }
+  now = START;
+  // Cloudflare defaults: 2 sessions, 1 of them reserved for interactive work.
+  pool = new InMemorySessionPool(undefined, () => now, sessionPoolConfig({}));
+});
+
+/** Acquire a fresh session through a reservation; returns its lease. */
+async function acquireFresh(
+  sessionPool: SessionPool,
+  sessionId: string,
+  priority: "interactive" | "batch" = "interactive",
+): Promise<string> {
+  const decision = await sessionPool.acquire({ priority });
+  expect(decision.type).toBe("reserved");
+  const { reservationId } = decision as { reservationId: string };
+  return sessionPool.confirm(reservationId, sessionId);
+}
+
+function status(sessions: { sessionId: string; status: string }[]) {
+  return Object.fromEntries(sessions.map((s) => [s.sessionId, s.status]));
+}
+
+describe("acquire", () => {
+  it("reserves a slot for a fresh session while below capacity", async () => {
+    const leaseId = await acquireFresh(pool, "s1");
+
+    expect(leaseId).toEqual(expect.any(String));
+    expect(status(await pool.list())).toEqual({ s1: "busy" });
+  });
+
+  it("reuses an idle session once the pool is full", async () => {
+    const lease1 = await acquireFresh(pool, "s1");
+    await acquireFresh(pool, "s2");
+    await pool.release("s1", lease1);
+
+    const decision = await pool.acquire({});
+    expect(decision).toMatchObject({ type: "reused", sessionId: "s1" });
+  });
+
+  it("reports full when busy and the caller can't wait", async () => {
+    await acquireFresh(pool, "s1");
+    await acquireFresh(pool, "s2");
+
+    expect(await pool.acquire({})).toEqual({ type: "full", reason: "full" });
+  });
+
+  it("never hands out a busy session, even when requested by ID", async () => {
+    await acquireFresh(pool, "s1");
+
+    const decision = await pool.acquire({ requestedSessionId: "s1" });
+    expect(decision.type).toBe("reserved");
+  });
+
+  it("keeps batch work off the session reserved for interactive", async () => {
+    await acquireFresh(pool, "s1", "batch");
+
+    expect(await pool.acquire({ priority: "batch" })).toEqual({
+      type: "full",
+      reason: "full",
+    });
+    expect((await pool.acquire({ priority: "interactive" })).type).toBe(
+      "reserved",
+    );
+  });
+});
+
+describe("release", () => {
+  it("marks the session idle for the lease holder", async () => {
+    const leaseId = await acquireFresh(pool, "s1");
+
+    expect(await pool.release("s1", leaseId)).toBe(true);
+    expect(status(await pool.list())).toEqual({ s1: "idle" });
+  });
+
+  it("refuses a lease that no longer holds the session", async () => {
+    const leaseId = await acquireFresh(pool, "s1");
+
+    expect(await pool.release("s1", "stale-lease")).toBe(false);
+    expect(await pool.heartbeat("s1", "stale-lease")).toBe(false);
+    expect(await pool.heartbeat("s1", leaseId)).toBe(true);
+    expect(status(await pool.list())).toEqual({ s1: "busy" });
+  });
+
+  it("returns false for a session the pool doesn't track", async () => {
+    expect(await pool.release("unknown", "lease")).toBe(false);
+  });
+});
+
+describe("queue", () => {
+  async function fillPool(): Promise<string> {
+    const lease1 = await acquireFresh(pool, "s1");
+    await acquireFresh(pool, "s2");
+    return lease1;
+  }
+
+  it("grants a released session to the head of the queue", async () => {
+    const lease1 = await fillPool();
+
+    const queued = await pool.acquire({ waitSeconds: 30 });
+    expect(queued).toMatchObject({ type: "queued", position: 1 });
+    const { waiterId } = queued as { waiterId: string };
+
+    now += 1000;
+    expect(await pool.poll(waiterId)).toMatchObject({
+      type: "queued",
+      position: 1,
+    });
+
+    await pool.release("s1", lease1);
+    const granted = await pool.poll(waiterId);
+    expect(granted).toMatchObject({ type: "reused", sessionId: "s1" });
+    const { leaseId } = granted as { leaseId: string };
+    expect(leaseId).not.toBe(lease1);
+
+    // The old holder's lease is dead; the waiter's is live.
+    expect(await pool.release("s1", lease1)).toBe(false);
+    expect(await pool.release("s1", leaseId)).toBe(true);
+  });
+
+  it("serves interactive waiters before batch waiters", async () => {
+    const lease1 = await fillPool();
+
+    const batch = (await pool.acquire({
+      priority: "batch",
+      waitSeconds: 30,
+    })) as { waiterId: string };
+    const interactive = await pool.acquire({ waitSeconds: 30 });
+    expect(interactive).toMatchObject({ type: "queued", position: 1 });
+
+    await pool.release("s1", lease1);
+    const { waiterId } = interactive as { waiterId: string };
+    expect((await pool.poll(waiterId)).type).toBe("reused");
+    expect(await pool.poll(batch.waiterId)).toMatchObject({ type: "queued" });
+  });
+
+  it("doesn't let a new caller jump ahead of queued callers", async () => {
+    const lease1 = await fillPool();
+    const waiter = (await pool.acquire({ waitSeconds: 30 })) as {
+      waiterId: string;
+    };
+
+    await pool.release("s1", lease1);
+    const latecomer = await pool.acquire({});
+    expect(latecomer).toEqual({ type: "full", reason: "full" });
+    expect((await pool.poll(waiter.waiterId)).type).toBe("reused");
+  });
+
+  it("times a waiter out after its deadline", async () => {
+    await fillPool();
+    const { waiterId } = (await pool.acquire({ waitSeconds: 5 })) as {
+      waiterId: string;
+    };
+
+    now += 6000;
+    expect(await pool.poll(waiterId)).toEqual({
+      type: "full",
+      reason: "timeout",
+    });
+  });
+});
+
+describe("reap", () => {
+  it("reclaims a busy session whose lease ran out", async () => {
+    const leaseId = await acquireFresh(pool, "s1");
+
+    now += (LEASE_TTL_SECONDS - 1) * 1000;
+    expect(await pool.reap()).toEqual([]);
+
+    now += 2000;
+    const reclaimed = await pool.reap();
+    expect(reclaimed.map((s) => s.sessionId)).toEqual(["s1"]);
+    expect(status(await pool.list())).toEqual({ s1: "idle" });
+
+    // The crashed holder can't renew or release it any more.
+    expect(await pool.heartbeat("s1", leaseId)).toBe(false);
+    expect(await pool.release("s1", leaseId)).toBe(false);
+  });
+
+  it("keeps a session whose lease is renewed by heartbeats", async () => {
+    const leaseId = await acquireFresh(pool, "s1");
+
+    for (let i = 0; i < 3; i++) {
+      now += (LEASE_TTL_SECONDS / 2) * 1000;
+      expect(await pool.heartbeat("s1", leaseId)).toBe(true);
+    }
+    expect(await pool.reap()).toEqual([]);
+    expect(status(await pool.list())).toEqual({ s1: "busy" });
+  });
+
+  it("hands a reclaimed session to a waiting caller", async () => {
+    await acquireFresh(pool, "s1");
+    await acquireFresh(pool, "s2");
+
+    // Queue halfway through the leases, so the waiter outlives them.
+    now += (LEASE_TTL_SECONDS / 2) * 1000;
+    const { waiterId } = (await pool.acquire({ waitSeconds: 60 })) as {
+      waiterId: string;
+    };
+
+    now += (LEASE_TTL_SECONDS / 2 + 1) * 1000;
+    await pool.reap();
+    expect((await pool.poll(waiterId)).type).toBe("reused");
+  });
+});